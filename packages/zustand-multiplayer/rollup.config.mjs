@@ -16,6 +16,7 @@ const external = [
   'zustand/react',
   'immer/dist/immer.cjs.production.min.js',
   'immer/dist/immer.esm.mjs',
+  'fs/promises',
 ];
 
 // Banner for generated files
@@ -170,6 +171,42 @@ export default [
     ],
   },
 
+  // Node.js-only entry (ES Module and CommonJS), kept out of browser bundles
+  {
+    input: 'src/node.ts',
+    output: [
+      {
+        file: 'dist/node.mjs',
+        format: 'es',
+        sourcemap: true,
+        banner,
+        exports: 'named',
+      },
+      {
+        file: 'dist/node.js',
+        format: 'cjs',
+        sourcemap: true,
+        banner,
+        exports: 'named',
+      },
+    ],
+    external,
+    plugins: [
+      json(),
+      resolve({
+        extensions: ['.ts', '.js'],
+        preferBuiltins: true,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.build.json',
+        declaration: false,
+        declarationMap: false,
+        outputToFilesystem: true,
+      }),
+    ],
+  },
+
   // TypeScript declarations
   {
     input: 'src/index.ts',
@@ -186,4 +223,19 @@ export default [
       }),
     ],
   },
+  {
+    input: 'src/node.ts',
+    output: [
+      {
+        file: 'dist/node.d.ts',
+        format: 'es',
+      },
+    ],
+    external,
+    plugins: [
+      dts({
+        respectExternal: true,
+      }),
+    ],
+  },
 ];
@@ -0,0 +1,327 @@
+import type { Logger } from '../monitoring/logger';
+import { createLogger, LogLevel } from '../monitoring/logger';
+import { escapeRegExp, isPlainObject } from '../utils';
+import { MAX_TOKEN_REQUEST_SIZE } from '../utils/constants';
+import type { TokenPermissions, TokenRequest } from './token-helper';
+import { TokenHelper } from './token-helper';
+
+/**
+ * Decides whether a token request is granted, e.g. from the session of the
+ * requesting user. Returns false to refuse the request, true to issue a token
+ * without restrictions, or the permissions of the token. Refusing the request
+ * is the only way to deny access; permissions are advisory.
+ */
+export type TokenAuthorizer<TRequest> = (
+  tokenRequest: TokenRequest,
+  request: TRequest,
+) => boolean | TokenPermissions | Promise<boolean | TokenPermissions>;
+
+export interface TokenHandlerCorsOptions {
+  /** Origins allowed to request tokens: `*`, a list of origins or a function deciding it */
+  origin: '*' | string[] | ((origin: string) => boolean);
+  /** Allow requests with cookies or HTTP authentication (default: false) */
+  credentials?: boolean;
+  /** Seconds browsers may cache the result of preflight requests */
+  maxAge?: number;
+}
+
+export interface TokenHandlerOptions<TRequest> {
+  /** HPKV API key; it never leaves the server */
+  apiKey: string;
+  /** HPKV API base URL */
+  apiBaseUrl: string;
+  /**
+   * Namespaces tokens are issued for: store namespaces (with any zFactor),
+   * patterns, or a function deciding it (default: all)
+   */
+  allowedNamespaces?: Array<string | RegExp> | ((namespace: string) => boolean);
+  /** Decides whether a request is granted and what its token permits (default: all requests) */
+  authorize?: TokenAuthorizer<TRequest>;
+  /** Cross-origin access to the endpoint (default: same origin only) */
+  cors?: TokenHandlerCorsOptions;
+  /** Logs failed token generation (default: errors to the console) */
+  logger?: Logger;
+}
+
+/**
+ * Minimal subset of Node's `IncomingMessage` used by the Node handler, which
+ * also covers the requests of Express, Connect and Next.js API routes
+ */
+export interface NodeRequestLike extends AsyncIterable<unknown> {
+  method?: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** Body already parsed by a framework, e.g. by `express.json()` or Next.js API routes */
+  body?: unknown;
+}
+
+/**
+ * Minimal subset of Node's `ServerResponse` used by the Node handler
+ */
+export interface NodeResponseLike {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+interface HandlerRequest<TRequest> {
+  method: string;
+  getHeader(name: string): string | undefined;
+  /** Reads the raw body, or returns the body a framework already parsed */
+  readBody(): Promise<unknown>;
+  request: TRequest;
+}
+
+interface HandlerResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string | null;
+}
+
+/**
+ * Refuses a request with an HTTP status and a message that is safe to send
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const ALLOWED_METHODS = 'POST, OPTIONS';
+
+function isNamespaceAllowed(
+  allowedNamespaces: TokenHandlerOptions<unknown>['allowedNamespaces'],
+  namespace: string,
+): boolean {
+  if (allowedNamespaces === undefined) {
+    return true;
+  }
+  if (typeof allowedNamespaces === 'function') {
+    return allowedNamespaces(namespace);
+  }
+  // Clients send the namespace with the zFactor of their store appended, e.g. `my-app-2`
+  return allowedNamespaces.some(allowed =>
+    typeof allowed === 'string'
+      ? namespace === allowed || new RegExp(`^${escapeRegExp(allowed)}-\\d+$`).test(namespace)
+      : allowed.test(namespace),
+  );
+}
+
+function parseTokenRequest(body: unknown): TokenRequest {
+  let data = body;
+  if (typeof body === 'string') {
+    try {
+      data = JSON.parse(body) as unknown;
+    } catch {
+      throw new HttpError(400, 'Request body must be JSON');
+    }
+  }
+  if (!isPlainObject(data)) {
+    throw new HttpError(400, 'Request body must be a token request');
+  }
+
+  const { namespace, subscribedKeysAndPatterns = [] } = data;
+  if (typeof namespace !== 'string' || namespace === '') {
+    throw new HttpError(400, 'namespace is required and must be a string');
+  }
+  if (
+    !Array.isArray(subscribedKeysAndPatterns) ||
+    !subscribedKeysAndPatterns.every(pattern => typeof pattern === 'string')
+  ) {
+    throw new HttpError(400, 'subscribedKeysAndPatterns must be an array of strings');
+  }
+  // Tokens only give access to the namespace, so subscriptions must not reach beyond it
+  if (!subscribedKeysAndPatterns.every(pattern => pattern.startsWith(`${namespace}:`))) {
+    throw new HttpError(400, `Keys and patterns must be within the namespace '${namespace}'`);
+  }
+  return { namespace, subscribedKeysAndPatterns };
+}
+
+function getCorsHeaders(
+  cors: TokenHandlerCorsOptions | undefined,
+  origin: string | undefined,
+): Record<string, string> {
+  if (cors === undefined || origin === undefined) {
+    return {};
+  }
+  if (cors.origin === '*' && cors.credentials !== true) {
+    return { 'Access-Control-Allow-Origin': '*' };
+  }
+
+  const isAllowed =
+    cors.origin === '*' ||
+    (typeof cors.origin === 'function' ? cors.origin(origin) : cors.origin.includes(origin));
+  if (!isAllowed) {
+    return { Vary: 'Origin' };
+  }
+  return {
+    'Access-Control-Allow-Origin': origin,
+    Vary: 'Origin',
+    ...(cors.credentials === true ? { 'Access-Control-Allow-Credentials': 'true' } : {}),
+  };
+}
+
+function jsonResponse(
+  status: number,
+  body: unknown,
+  headers: Record<string, string>,
+): HandlerResponse {
+  return {
+    status,
+    headers: { ...headers, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    body: JSON.stringify(body),
+  };
+}
+
+/**
+ * Creates the framework independent part of the token endpoint handlers
+ */
+function createTokenRequestHandler<TRequest>(
+  options: TokenHandlerOptions<TRequest>,
+): (request: HandlerRequest<TRequest>) => Promise<HandlerResponse> {
+  const tokenHelper = new TokenHelper(options.apiKey, options.apiBaseUrl);
+  const logger = options.logger ?? createLogger(LogLevel.ERROR);
+
+  return async request => {
+    const headers = getCorsHeaders(options.cors, request.getHeader('origin'));
+
+    if (request.method === 'OPTIONS') {
+      const preflightHeaders: Record<string, string> = { ...headers, Allow: ALLOWED_METHODS };
+      if (headers['Access-Control-Allow-Origin'] !== undefined) {
+        preflightHeaders['Access-Control-Allow-Methods'] = ALLOWED_METHODS;
+        preflightHeaders['Access-Control-Allow-Headers'] =
+          request.getHeader('access-control-request-headers') ?? 'Content-Type';
+        if (options.cors?.maxAge !== undefined) {
+          preflightHeaders['Access-Control-Max-Age'] = String(options.cors.maxAge);
+        }
+      }
+      return { status: 204, headers: preflightHeaders, body: null };
+    }
+
+    if (request.method !== 'POST') {
+      return jsonResponse(
+        405,
+        { error: 'Method not allowed' },
+        { ...headers, Allow: ALLOWED_METHODS },
+      );
+    }
+
+    try {
+      const tokenRequest = parseTokenRequest(await request.readBody());
+      if (!isNamespaceAllowed(options.allowedNamespaces, tokenRequest.namespace)) {
+        throw new HttpError(403, `Tokens are not issued for namespace '${tokenRequest.namespace}'`);
+      }
+
+      const permissions = (await options.authorize?.(tokenRequest, request.request)) ?? true;
+      if (permissions === false) {
+        throw new HttpError(403, 'Not authorized to obtain a token');
+      }
+
+      const response = await tokenHelper.processTokenRequest(
+        tokenRequest,
+        permissions === true ? undefined : () => permissions,
+      );
+      return jsonResponse(200, response, headers);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return jsonResponse(error.status, { error: error.message }, headers);
+      }
+      logger.error('Failed to generate token', error as Error);
+      return jsonResponse(500, { error: 'Failed to generate token' }, headers);
+    }
+  };
+}
+
+function assertBodySize(contentLength: string | undefined): void {
+  if (contentLength !== undefined && Number(contentLength) > MAX_TOKEN_REQUEST_SIZE) {
+    throw new HttpError(413, 'Request body is too large');
+  }
+}
+
+/**
+ * Creates a token endpoint handler for Node's `http` module, Express, Connect
+ * and Next.js API routes (pages router)
+ *
+ * @example
+ * app.post('/api/generate-token', createNodeTokenHandler({ apiKey, apiBaseUrl }));
+ */
+export function createNodeTokenHandler<TRequest extends NodeRequestLike = NodeRequestLike>(
+  options: TokenHandlerOptions<TRequest>,
+): (req: TRequest, res: NodeResponseLike) => Promise<void> {
+  const handle = createTokenRequestHandler(options);
+
+  return async (req, res) => {
+    const getHeader = (name: string): string | undefined => {
+      const value = req.headers[name];
+      return Array.isArray(value) ? value.join(', ') : value;
+    };
+
+    const response = await handle({
+      method: req.method?.toUpperCase() ?? 'GET',
+      getHeader,
+      readBody: async () => {
+        if (req.body !== undefined) {
+          return req.body;
+        }
+        assertBodySize(getHeader('content-length'));
+
+        // The body is read to the end even if it is too large, so the response can still be sent
+        const decoder = new TextDecoder();
+        let size = 0;
+        let body = '';
+        for await (const chunk of req) {
+          const data =
+            typeof chunk === 'string' ? new TextEncoder().encode(chunk) : (chunk as Uint8Array);
+          size += data.byteLength;
+          if (size <= MAX_TOKEN_REQUEST_SIZE) {
+            body += decoder.decode(data, { stream: true });
+          }
+        }
+        if (size > MAX_TOKEN_REQUEST_SIZE) {
+          throw new HttpError(413, 'Request body is too large');
+        }
+        return body + decoder.decode();
+      },
+      request: req,
+    });
+
+    res.statusCode = response.status;
+    Object.entries(response.headers).forEach(([name, value]) => res.setHeader(name, value));
+    res.end(response.body ?? undefined);
+  };
+}
+
+/**
+ * Creates a token endpoint handler for runtimes with the Fetch API `Request`
+ * and `Response`, such as Next.js route handlers (app router), Deno, Bun,
+ * Cloudflare Workers and Hono
+ *
+ * @example
+ * const handler = createFetchTokenHandler({ apiKey, apiBaseUrl });
+ * export { handler as POST, handler as OPTIONS };
+ */
+export function createFetchTokenHandler<TRequest extends Request = Request>(
+  options: TokenHandlerOptions<TRequest>,
+): (request: TRequest) => Promise<Response> {
+  const handle = createTokenRequestHandler(options);
+
+  return async request => {
+    const response = await handle({
+      method: request.method.toUpperCase(),
+      getHeader: name => request.headers.get(name) ?? undefined,
+      readBody: async () => {
+        assertBodySize(request.headers.get('content-length') ?? undefined);
+        const body = await request.text();
+        if (new TextEncoder().encode(body).byteLength > MAX_TOKEN_REQUEST_SIZE) {
+          throw new HttpError(413, 'Request body is too large');
+        }
+        return body;
+      },
+      request,
+    });
+
+    return new Response(response.body, { status: response.status, headers: response.headers });
+  };
+}
@@ -11,6 +11,23 @@ export interface TokenRequest {
   subscribedKeysAndPatterns: string[];
 }
 
+/**
+ * What a client may write with a token. Advisory only: the token itself gives
+ * read and write access to all keys of the namespace, and only the middleware
+ * refuses local writes it does not permit, so a modified client can still write.
+ */
+export interface TokenPermissions {
+  /** Refuse all writes to synced state */
+  readOnly?: boolean;
+  /** Dot separated state paths that may be written, including everything below them (default: all) */
+  writablePaths?: string[];
+}
+
+/**
+ * Decides the (advisory) permissions of a token for a token request; throw to refuse the request
+ */
+export type TokenPolicy = (request: TokenRequest) => TokenPermissions | Promise<TokenPermissions>;
+
 /**
  * Response format from token generation endpoint
  */
@@ -19,6 +36,68 @@ export interface TokenResponse {
   namespace: string;
   /** The generated WebSocket token */
   token: string;
+  /** Time the token expires, in milliseconds since the epoch */
+  expiresAt?: number;
+  /** Seconds until the token expires, used when `expiresAt` is not given */
+  expiresIn?: number;
+  /** Writes the token permits (default: all) */
+  permissions?: TokenPermissions;
+}
+
+/**
+ * A token and, if known, when it expires
+ */
+export type IssuedToken = Omit<TokenResponse, 'namespace'>;
+
+/**
+ * Obtains a token for a token request, e.g. through an app's existing auth stack
+ */
+export type TokenProvider = (request: TokenRequest) => Promise<string | IssuedToken>;
+
+/**
+ * Fetch options for requests to the token generation URL, or a function
+ * creating them for each request
+ */
+export type TokenRequestInit =
+  | RequestInit
+  | ((request: TokenRequest) => RequestInit | Promise<RequestInit>);
+
+/**
+ * Reads the expiry (`exp` claim) of a JWT
+ * @param token The token to read
+ * @returns The expiry in milliseconds since the epoch, or undefined if the token is not a JWT with an expiry
+ */
+export function decodeTokenExpiry(token: string): number | undefined {
+  const [, payload] = token.split('.');
+  if (payload === undefined || payload === '') {
+    return undefined;
+  }
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))) as {
+      exp?: unknown;
+    };
+    return typeof claims.exp === 'number' && Number.isFinite(claims.exp)
+      ? claims.exp * 1000
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Determines when a token from a token response expires, from `expiresAt`,
+ * `expiresIn` or the token itself
+ * @returns The expiry in milliseconds since the epoch, or undefined if it is unknown
+ */
+export function getTokenExpiry(response: IssuedToken): number | undefined {
+  if (typeof response.expiresAt === 'number' && Number.isFinite(response.expiresAt)) {
+    return response.expiresAt;
+  }
+  if (typeof response.expiresIn === 'number' && Number.isFinite(response.expiresIn)) {
+    return Date.now() + response.expiresIn * 1000;
+  }
+  return decodeTokenExpiry(response.token);
 }
 
 /**
@@ -56,9 +135,10 @@ export class TokenHelper {
    * Process a token request and return a token response
    *
    * @param requestData The request data object or string
-   * @returns TokenResponse object with the generated token
+   * @param policy Decides the permissions of the token, e.g. from the session of the requesting user
+   * @returns TokenResponse object with the generated token, its expiry, if known, and permissions
    */
-  async processTokenRequest(requestData: unknown): Promise<TokenResponse> {
+  async processTokenRequest(requestData: unknown, policy?: TokenPolicy): Promise<TokenResponse> {
     try {
       let parsedRequest: Partial<TokenRequest>;
 
@@ -78,9 +158,17 @@ export class TokenHelper {
         throw new Error('Invalid request: namespace is required and must be a string');
       }
 
-      const token = await this.generateTokenForStore(namespace, subscribedKeysAndPatterns ?? []);
+      const request = { namespace, subscribedKeysAndPatterns: subscribedKeysAndPatterns ?? [] };
+      const permissions = policy !== undefined ? await policy(request) : undefined;
+      const token = await this.generateTokenForStore(namespace, request.subscribedKeysAndPatterns);
 
-      return { namespace, token };
+      const expiresAt = decodeTokenExpiry(token);
+      return {
+        namespace,
+        token,
+        ...(expiresAt !== undefined ? { expiresAt } : {}),
+        ...(permissions !== undefined ? { permissions } : {}),
+      };
     } catch (error) {
       throw error instanceof Error ? error : new Error('Unknown error during token generation');
     }
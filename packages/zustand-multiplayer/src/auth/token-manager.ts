@@ -1,16 +1,25 @@
 import type { Logger } from '../monitoring/logger';
 import type { StorageKeyManager } from '../storage/storage-key-manager';
 import { clearTimeoutSafely } from '../utils';
-import { TOKEN_EXPIRY_TIME, TOKEN_REFRESH_BUFFER } from '../utils/constants';
+import { MAX_TIMER_DELAY, TOKEN_EXPIRY_TIME, TOKEN_REFRESH_BUFFER } from '../utils/constants';
 import type { RetryManager } from '../utils/retry';
-import type { TokenResponse } from './token-helper';
-import { TokenHelper } from './token-helper';
+import type {
+  IssuedToken,
+  TokenPermissions,
+  TokenProvider,
+  TokenRequest,
+  TokenRequestInit,
+  TokenResponse,
+} from './token-helper';
+import { getTokenExpiry, TokenHelper } from './token-helper';
 
 export interface TokenGenerationOptions {
   namespace: string;
   apiBaseUrl: string;
   apiKey?: string;
   tokenGenerationUrl?: string;
+  getToken?: TokenProvider;
+  tokenRequestInit?: TokenRequestInit;
   subscribedKeys: string[];
   keyManager: StorageKeyManager;
   retryManager: RetryManager;
@@ -65,6 +74,7 @@ export class TokenManager {
   private tokenRefreshPromise: Promise<string> | null = null;
   private readonly options: TokenGenerationOptions;
   private onTokenRefresh?: () => Promise<void>;
+  private onTokenGenerated?: (expiresAt: number, permissions?: TokenPermissions) => void;
 
   constructor(options: TokenGenerationOptions) {
     this.options = options;
@@ -77,6 +87,16 @@ export class TokenManager {
     this.onTokenRefresh = callback;
   }
 
+  /**
+   * Sets a callback to be called whenever a new token has been obtained, with
+   * its expiry and the writes it permits
+   */
+  setTokenGeneratedCallback(
+    callback: (expiresAt: number, permissions?: TokenPermissions) => void,
+  ): void {
+    this.onTokenGenerated = callback;
+  }
+
   /**
    * Generates a WebSocket token with appropriate access permissions
    * Thread-safe with race condition protection
@@ -111,40 +131,50 @@ export class TokenManager {
     this.secureTokenCache.clear();
     this.clearTokenRefreshTimer();
 
-    let token: string;
+    let tokenResponse: IssuedToken;
 
-    if (this.options.apiKey) {
+    if (this.options.getToken !== undefined) {
+      tokenResponse = await this.requestToken(this.options.getToken);
+    } else if (this.options.apiKey) {
       const tokenHelper = new TokenHelper(this.options.apiKey, this.options.apiBaseUrl);
-      const fullSubscribedKeys = this.options.subscribedKeys.map(key =>
-        this.options.keyManager.getFullKey(key),
-      );
-      token = await tokenHelper.generateTokenForStore(
-        this.options.keyManager.getNamespace(),
-        fullSubscribedKeys,
-      );
+      const { namespace, subscribedKeysAndPatterns } = this.createTokenRequest();
+      tokenResponse = {
+        token: await tokenHelper.generateTokenForStore(namespace, subscribedKeysAndPatterns),
+      };
     } else if (this.options.tokenGenerationUrl) {
-      token = await this.fetchToken();
+      tokenResponse = await this.fetchToken();
     } else {
-      throw new Error('either apiKey or tokenGenerationUrl are required');
+      throw new Error('either apiKey, tokenGenerationUrl or getToken are required');
     }
 
-    // Cache token with configured expiry time
-    const expiresAt = Date.now() + TOKEN_EXPIRY_TIME;
+    // Cache token until it expires, assuming the default lifetime if the expiry is unknown
+    const { token } = tokenResponse;
+    const expiresAt = getTokenExpiry(tokenResponse) ?? Date.now() + TOKEN_EXPIRY_TIME;
     this.secureTokenCache.set(token, expiresAt);
+    this.onTokenGenerated?.(expiresAt, tokenResponse.permissions);
+    this.scheduleTokenRefresh(expiresAt);
 
-    // Schedule refresh with configured buffer time before expiry
-    const refreshAt = expiresAt - TOKEN_REFRESH_BUFFER;
-    const refreshDelay = refreshAt - Date.now();
+    return token;
+  }
+
+  /**
+   * Schedules a refresh before the token expires, leaving short-lived tokens
+   * at least three quarters of their lifetime
+   */
+  private scheduleTokenRefresh(expiresAt: number): void {
+    const lifetime = expiresAt - Date.now();
+    const refreshDelay = lifetime - Math.min(TOKEN_REFRESH_BUFFER, lifetime / 4);
 
     if (refreshDelay > 0) {
-      this.tokenRefreshTimer = setTimeout(() => {
-        this.refreshToken().catch(() => {
-          // Ignore refresh errors
-        });
-      }, refreshDelay);
+      this.tokenRefreshTimer = setTimeout(
+        () => {
+          this.refreshToken().catch(() => {
+            // Ignore refresh errors
+          });
+        },
+        Math.min(refreshDelay, MAX_TIMER_DELAY),
+      );
     }
-
-    return token;
   }
 
   /**
@@ -169,26 +199,58 @@ export class TokenManager {
     this.tokenRefreshTimer = null;
   }
 
+  /**
+   * Describes the token this store needs
+   */
+  private createTokenRequest(): TokenRequest {
+    return {
+      namespace: this.options.keyManager.getNamespace(),
+      subscribedKeysAndPatterns: this.options.subscribedKeys.map(key =>
+        this.options.keyManager.getFullKey(key),
+      ),
+    };
+  }
+
+  /**
+   * Obtains a token from a custom token provider
+   */
+  private async requestToken(getToken: TokenProvider): Promise<IssuedToken> {
+    return this.options.retryManager.executeWithRetry(async () => {
+      const result = await getToken(this.createTokenRequest());
+      const issuedToken = typeof result === 'string' ? { token: result } : result;
+      if (typeof issuedToken?.token !== 'string' || issuedToken.token === '') {
+        throw new Error('getToken must return a token');
+      }
+      return issuedToken;
+    }, 'getToken');
+  }
+
   /**
    * Fetches token from a custom token generation URL
    */
-  private async fetchToken(): Promise<string> {
+  private async fetchToken(): Promise<TokenResponse> {
     return this.options.retryManager.executeWithRetry(async () => {
+      const request = this.createTokenRequest();
+      const { tokenRequestInit } = this.options;
+      const init =
+        typeof tokenRequestInit === 'function'
+          ? await tokenRequestInit(request)
+          : (tokenRequestInit ?? {});
+      const headers = new Headers(init.headers);
+      if (!headers.has('Content-Type')) {
+        headers.set('Content-Type', 'application/json');
+      }
+
       const response = await fetch(this.options.tokenGenerationUrl!, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          namespace: this.options.keyManager.getNamespace(),
-          subscribedKeysAndPatterns: this.options.subscribedKeys.map(key =>
-            this.options.keyManager.getFullKey(key),
-          ),
-        }),
+        body: JSON.stringify(request),
+        ...init,
+        headers,
       });
       if (!response.ok) {
         throw new Error(`Failed to get token: ${response.status} ${response.statusText}`);
       }
-      const data = (await response.json()) as TokenResponse;
-      return data.token;
+      return (await response.json()) as TokenResponse;
     }, 'fetchToken');
   }
 
@@ -0,0 +1,44 @@
+export type EventHandler<TPayload> = (payload: TPayload) => void;
+
+/**
+ * Minimal emitter for a fixed map of event names to payload types. A throwing
+ * handler is reported through `onHandlerError` and does not stop other handlers.
+ */
+export class TypedEventEmitter<TEvents> {
+  private readonly handlers = new Map<keyof TEvents, Set<EventHandler<never>>>();
+
+  constructor(private readonly onHandlerError: (event: keyof TEvents, error: unknown) => void) {}
+
+  on<K extends keyof TEvents>(event: K, handler: EventHandler<TEvents[K]>): () => void {
+    let handlers = this.handlers.get(event);
+    if (handlers === undefined) {
+      handlers = new Set();
+      this.handlers.set(event, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  emit<K extends keyof TEvents>(event: K, payload: TEvents[K]): void {
+    this.handlers.get(event)?.forEach(handler => {
+      try {
+        (handler as EventHandler<TEvents[K]>)(payload);
+      } catch (error) {
+        this.onHandlerError(event, error);
+      }
+    });
+  }
+
+  /**
+   * Whether an event has handlers, to skip building payloads nobody receives
+   */
+  hasHandlers(event: keyof TEvents): boolean {
+    return (this.handlers.get(event)?.size ?? 0) > 0;
+  }
+
+  clear(): void {
+    this.handlers.clear();
+  }
+}
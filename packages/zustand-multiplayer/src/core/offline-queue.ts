@@ -0,0 +1,109 @@
+import { isPlainObject } from '../utils';
+
+/**
+ * A local change that has not been written to remote storage yet
+ */
+export interface PendingChange {
+  /** State path of the change (dot separated, e.g. `todos.abc`) */
+  path: string;
+  /** Fully namespaced storage key the change is written to */
+  key: string;
+  operation: 'set' | 'remove';
+  value?: unknown;
+  /** Time the change was made locally */
+  timestamp: number;
+}
+
+/**
+ * Combines a change with an earlier, not yet written change to the same key.
+ * Both values are patches against what remote storage holds, so coalescing
+ * them must keep deletions (null) from either one.
+ */
+export function coalesceChanges(previous: PendingChange, change: PendingChange): PendingChange {
+  if (previous.operation === 'set' && change.operation === 'set') {
+    return { ...change, value: composePatches(previous.value, change.value) };
+  }
+  return change;
+}
+
+function composePatches(first: unknown, second: unknown): unknown {
+  if (!isPlainObject(first) || !isPlainObject(second)) {
+    return second;
+  }
+  const composed: Record<string, unknown> = { ...first };
+  for (const [key, value] of Object.entries(second)) {
+    composed[key] = value === null ? null : composePatches(composed[key], value);
+  }
+  return composed;
+}
+
+/**
+ * Outbox for local changes made while the store cannot reach remote storage.
+ * Changes are coalesced per storage key: a newer change to a key replaces the
+ * queued one and moves to the end, so flushing replays keys in the order they
+ * were last modified.
+ */
+export class OfflineQueue {
+  private changes = new Map<string, PendingChange>();
+
+  enqueue(change: PendingChange): void {
+    this.changes.delete(change.key);
+    this.changes.set(change.key, change);
+  }
+
+  /**
+   * Enqueues a change, coalescing it with the queued change to the same key
+   */
+  merge(change: PendingChange): void {
+    const queued = this.changes.get(change.key);
+    this.enqueue(queued !== undefined ? coalesceChanges(queued, change) : change);
+  }
+
+  /**
+   * Removes and returns the oldest queued change
+   */
+  dequeue(): PendingChange | undefined {
+    const first = this.changes.values().next();
+    if (first.done === true) {
+      return undefined;
+    }
+    this.changes.delete(first.value.key);
+    return first.value;
+  }
+
+  /**
+   * Puts a change that could not be flushed back at the front of the queue,
+   * unless a newer change for the same key was queued in the meantime
+   */
+  requeue(change: PendingChange): void {
+    if (this.changes.has(change.key)) {
+      return;
+    }
+    this.changes = new Map([[change.key, change], ...this.changes]);
+  }
+
+  /**
+   * Removes and returns the queued change of a key
+   */
+  take(key: string): PendingChange | undefined {
+    const change = this.changes.get(key);
+    this.changes.delete(key);
+    return change;
+  }
+
+  get(key: string): PendingChange | undefined {
+    return this.changes.get(key);
+  }
+
+  getAll(): PendingChange[] {
+    return Array.from(this.changes.values(), change => ({ ...change }));
+  }
+
+  clear(): void {
+    this.changes.clear();
+  }
+
+  get size(): number {
+    return this.changes.size;
+  }
+}
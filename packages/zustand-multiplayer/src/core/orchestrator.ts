@@ -1,14 +1,50 @@
 import type { ConnectionStats } from '@hpkv/websocket-client';
 import { ConnectionState } from '@hpkv/websocket-client';
 import type { StoreApi } from 'zustand/vanilla';
+import type { TokenPermissions } from '../auth/token-helper';
+import type { CrdtField, CrdtFieldWrite } from '../crdt/crdt-field';
+import { createCrdtField } from '../crdt/crdt-field';
+import type { TextOperation } from '../crdt/text-field';
+import { TextField } from '../crdt/text-field';
 import type { Logger } from '../monitoring/logger';
 import type { PerformanceMetrics, PerformanceMonitor } from '../monitoring/profiler';
-import type { HPKVChangeEvent, HPKVStorage } from '../storage/hpkv-storage';
+import { LocalStateCache } from '../storage/local-state-cache';
+import type { StorageAdapter, StorageChangeEvent, StoredValue } from '../storage/storage-adapter';
 import { StorageKeyManager } from '../storage/storage-key-manager';
-import type { MultiplayerOptions, MultiplayerState } from '../types/multiplayer-types';
-import { DEFAULT_Z_FACTOR } from '../utils/constants';
+import type {
+  ConflictResolutionMeta,
+  ConflictResolver,
+  MultiplayerEvents,
+  MultiplayerOptions,
+  MultiplayerState,
+} from '../types/multiplayer-types';
+import { applyMergePatch, isPlainObject } from '../utils';
+import {
+  DEFAULT_UNDO_MAX_DEPTH,
+  DEFAULT_Z_FACTOR,
+  LOCAL_SNAPSHOT_SAVE_DELAY,
+} from '../utils/constants';
+import { decodeKeySegment, encodeKeySegment } from '../utils/key-encoder';
+import type { EventHandler } from './event-emitter';
+import { TypedEventEmitter } from './event-emitter';
+import type { PendingChange } from './offline-queue';
+import { coalesceChanges, OfflineQueue } from './offline-queue';
+import type { PresenceEntry } from './presence-manager';
+import { PresenceManager } from './presence-manager';
+import { SchemaValidator } from './schema-validator';
 import { StateDiffManager } from './state-diff-manager';
 import { StateMerger } from './state-merger';
+import { isStateVersionRecord, STATE_VERSION_KEY_SEGMENT } from './state-version';
+import type { SyncStatus } from './sync-tracker';
+import { SyncTracker } from './sync-tracker';
+import type { TransactionRecord } from './transaction-record';
+import { isTransactionRecord, TRANSACTION_KEY_SEGMENT } from './transaction-record';
+import type { UndoChange } from './undo-manager';
+import { UndoManager } from './undo-manager';
+import type { KeyMetadata } from './version-tracker';
+import { compareVersions, VersionTracker } from './version-tracker';
+import { WriteBatcher } from './write-batcher';
+import { getWriteDenial } from './write-permissions';
 
 // ============================================================================
 // ORCHESTRATOR
@@ -19,19 +55,72 @@ export class Orchestrator<TState> {
   private readonly keyManager: StorageKeyManager;
   private readonly diffManager: StateDiffManager;
   private readonly merger: StateMerger<TState>;
+  private readonly offlineQueue = new OfflineQueue();
+  private readonly versions = new VersionTracker();
+  private readonly crdtFields = new Map<string, CrdtField>();
+  private readonly localCache: LocalStateCache | null;
+  private readonly presence: PresenceManager;
+  private readonly undoManager: UndoManager;
+  private readonly undoFields: string[];
+  private readonly batcher: WriteBatcher;
+  private readonly syncTracker: SyncTracker;
+  private readonly events: TypedEventEmitter<MultiplayerEvents>;
+  private readonly schemaValidator: SchemaValidator;
+  /** Version of the state shape this client reads and writes */
+  private readonly stateVersion: number;
+  /** Latest state version found in remote storage */
+  private storedStateVersion = 0;
+  /** Writes permitted by the current access token, if the storage adapter reports them */
+  private permissions: TokenPermissions | undefined;
+  private localSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Acknowledgements of the writes made by the current `setAndSync()` call */
+  private acknowledgements: Array<Promise<void>> | null = null;
+  /** Changes made inside `transaction()`, written together once it ends */
+  private openTransaction: OfflineQueue | null = null;
+  /** Remote transaction being applied; its updates are applied to the store at once */
+  private stagedTransaction: { state: TState; update: Partial<TState> } | null = null;
   private isHydrating = false;
   private hasHydrated = false;
+  private isFlushing = false;
 
   constructor(
-    private readonly client: HPKVStorage,
+    private readonly client: StorageAdapter,
     private readonly options: MultiplayerOptions<TState>,
     private readonly api: StoreApi<TState>,
     private readonly performanceMonitor: PerformanceMonitor,
     private readonly logger: Logger,
+    /** Initial state of the store, used to repair invalid remote data */
+    private readonly initialState: Partial<TState> = {},
   ) {
     this.keyManager = new StorageKeyManager(options.namespace, options.zFactor);
     this.diffManager = new StateDiffManager();
     this.merger = new StateMerger<TState>(options.zFactor ?? DEFAULT_Z_FACTOR);
+    this.undoManager = new UndoManager(options.undo?.maxDepth ?? DEFAULT_UNDO_MAX_DEPTH);
+    this.undoFields = this.getUndoFields();
+    this.presence = new PresenceManager(client, this.keyManager, logger, options.presence);
+    this.batcher = new WriteBatcher(options.batching, changes => this.writeBatchedChanges(changes));
+    this.syncTracker = new SyncTracker(count =>
+      this.updateMultiplayerState({ pendingWrites: count }),
+    );
+    this.schemaValidator = new SchemaValidator(options.schema);
+    this.stateVersion = options.version ?? 0;
+    this.events = new TypedEventEmitter<MultiplayerEvents>((event, error) => {
+      this.logger.error(`Handler of '${event}' event failed`, error as Error);
+    });
+    this.localCache =
+      options.localPersistence !== undefined
+        ? new LocalStateCache(options.localPersistence, this.keyManager, logger, options.serializer)
+        : null;
+
+    for (const [field, fieldType] of Object.entries(options.fieldTypes ?? {})) {
+      if (fieldType !== undefined) {
+        this.crdtFields.set(
+          field,
+          createCrdtField(fieldType, { field, clientId: client.getClientId(), logger }),
+        );
+      }
+    }
+
     this.setupEventListeners();
   }
 
@@ -47,11 +136,27 @@ export class Orchestrator<TState> {
     const removeConnectionListener = this.client.addConnectionListener(connectionListener);
     this.cleanupFunctions.push(removeConnectionListener);
 
-    const removeChangeListener = this.client.addChangeListener((event: HPKVChangeEvent) => {
+    const removeChangeListener = this.client.addChangeListener((event: StorageChangeEvent) => {
       void this.handleRemoteChange(event);
     });
 
     this.cleanupFunctions.push(removeChangeListener);
+
+    const removeTokenListener = this.client.addTokenListener?.((expiresAt, permissions) => {
+      this.permissions = permissions;
+      this.events.emit(
+        'tokenRefreshed',
+        permissions !== undefined ? { expiresAt, permissions } : { expiresAt },
+      );
+    });
+    if (removeTokenListener !== undefined) {
+      this.cleanupFunctions.push(removeTokenListener);
+    }
+
+    if (this.localCache !== null) {
+      const unsubscribe = this.api.subscribe(() => this.scheduleLocalSave());
+      this.cleanupFunctions.push(unsubscribe);
+    }
   }
 
   private async handleConnectionStateChange(state: ConnectionState): Promise<void> {
@@ -65,9 +170,19 @@ export class Orchestrator<TState> {
     }
 
     this.updateMultiplayerState({ connectionState: state });
+    this.events.emit('connectionChange', { state });
 
-    if (state === ConnectionState.CONNECTED && !this.hasHydrated) {
-      await this.hydrate();
+    if (state === ConnectionState.CONNECTED) {
+      if (this.hasHydrated) {
+        await this.flushPendingChanges();
+      } else {
+        await this.hydrate();
+      }
+      this.presence.start();
+    } else {
+      // Batched changes are queued until reconnected
+      await this.batcher.flush();
+      await this.presence.stop(false);
     }
   }
 
@@ -93,6 +208,18 @@ export class Orchestrator<TState> {
 
     const newState = this.api.getState();
 
+    // A denied change would never be synced, so the update is not kept locally either
+    const denied = this.findDeniedWrite(newState, oldState);
+    if (denied !== null) {
+      this.api.setState(oldState, true);
+      const error = new Error(denied.denial);
+      this.logger.error('Refused local change', error);
+      this.events.emit('syncError', { path: denied.path, error });
+      throw error;
+    }
+
+    this.undoManager.record(this.collectUndoChanges(newState, oldState));
+
     await this.syncToRemote(newState, oldState);
   }
 
@@ -100,17 +227,277 @@ export class Orchestrator<TState> {
    * Handle remote state changes received from other clients
    * Merges the remote changes into the local state
    */
-  private handleRemoteChange(event: HPKVChangeEvent): void {
+  private handleRemoteChange(event: StorageChangeEvent): void {
+    if (
+      this.presence.handleRemoteChange(event) ||
+      this.handleRemoteTransaction(event) ||
+      this.handleRemoteStateVersion(event)
+    ) {
+      return;
+    }
+
     const path = this.parseStorageKey(event.key);
 
+    if (this.applyCrdtItem(path, event.value)) {
+      const field = decodeKeySegment(path.split('.')[0]);
+      const update = this.buildCrdtState([field]);
+      this.applyRemoteUpdate(update);
+      this.events.emit('remoteChange', {
+        path: [field],
+        value: update[field as keyof TState],
+        clientId: event.clientId,
+      });
+      return;
+    }
+
+    const key = this.createStorageKey(path);
+    const localVersion = this.versions.get(key) ?? null;
+    const remoteVersion = this.createRemoteVersion(key, event);
+    const resolver = this.getConflictResolver(path);
+
+    // Writes of a transaction are also stored under their own keys after the transaction
+    if (
+      localVersion !== null &&
+      remoteVersion !== null &&
+      compareVersions(localVersion, remoteVersion) === 0
+    ) {
+      return;
+    }
+
+    // Custom resolvers decide for themselves how to handle stale changes
+    const isNewer = remoteVersion === null || this.versions.update(remoteVersion);
+    if (!isNewer && resolver === undefined) {
+      this.logger.debug(`Ignored stale remote change for path '${path}'`, {
+        clientId: this.client.getClientId(),
+      });
+      const localValue = this.getValueAtPath(path, this.getCurrentState());
+      const remoteValue =
+        event.value === null ? undefined : applyMergePatch(localValue, event.value);
+      if (this.events.hasHandlers('conflict')) {
+        this.events.emit('conflict', {
+          path: path.split('.').map(decodeKeySegment),
+          local: localValue,
+          remote: remoteValue,
+          resolved: localValue,
+          localVersion,
+          remoteVersion,
+        });
+      }
+      if (localVersion?.clientId === this.client.getClientId()) {
+        this.restoreWinningValue(path, localVersion, remoteVersion, localValue, remoteValue);
+      }
+      return;
+    }
+
     this.logger.debug(
       `Received remote ${event.value === null ? 'Delete' : 'Update'} change for path '${path}' `,
       { clientId: this.client.getClientId() },
     );
 
-    const currentState = this.api.getState();
-    const update = this.merger.buildStateUpdate(path, event.value, currentState);
-    this.api.setState(update, false);
+    const currentState = this.getCurrentState();
+    if (resolver !== undefined) {
+      this.applyResolvedChange(resolver, path, event.value, currentState, {
+        key,
+        localVersion,
+        remoteVersion,
+      });
+      return;
+    }
+
+    const update = this.checkRemoteUpdate(
+      this.merger.buildStateUpdate(path, event.value, currentState),
+    );
+    if (update === null) {
+      return;
+    }
+    this.applyRemoteUpdate(update);
+    this.events.emit('remoteChange', {
+      path: path.split('.').map(decodeKeySegment),
+      value: this.getValueAtPath(path, this.getCurrentState()),
+      clientId: event.clientId,
+    });
+  }
+
+  /**
+   * State that remote changes apply to; includes the changes of a transaction being applied
+   */
+  private getCurrentState(): TState {
+    return this.stagedTransaction?.state ?? this.api.getState();
+  }
+
+  /**
+   * Apply a state update caused by a remote change. Updates of a transaction are
+   * staged and applied together once the whole transaction has been processed.
+   */
+  private applyRemoteUpdate(update: Partial<TState>): void {
+    if (this.stagedTransaction === null) {
+      this.api.setState(update, false);
+      return;
+    }
+    Object.assign(this.stagedTransaction.update, update);
+    this.stagedTransaction.state = { ...this.stagedTransaction.state, ...update };
+  }
+
+  /**
+   * Validate the fields of a remote update against their schemas and apply the schema policy
+   *
+   * @returns The update to apply, or null if it is rejected
+   */
+  private checkRemoteUpdate(update: Partial<TState>): Partial<TState> | null {
+    const policy = this.options.schemaPolicy ?? 'reject';
+    let checked = update;
+
+    for (const field of Object.keys(update) as Array<keyof TState & string>) {
+      const value = update[field];
+      const issues = this.schemaValidator.validate(field, value);
+      if (issues.length === 0) {
+        continue;
+      }
+
+      this.logger.warn(`Invalid remote value for field '${field}': ${issues.join('; ')}`, {
+        clientId: this.client.getClientId(),
+      });
+      this.events.emit('validationError', { field, value, issues, policy });
+      if (policy === 'reject') {
+        return null;
+      }
+      if (policy === 'repair') {
+        checked = { ...checked, [field]: this.initialState[field] };
+      }
+    }
+
+    return checked;
+  }
+
+  /**
+   * Version of a remote change, or null if it carries no timestamp and cannot be ordered
+   */
+  private createRemoteVersion(key: string, event: StorageChangeEvent): KeyMetadata | null {
+    if (event.timestamp === undefined) {
+      return null;
+    }
+
+    return {
+      key,
+      timestamp: event.timestamp,
+      clientId: event.clientId ?? '',
+      deleted: event.value === null,
+    };
+  }
+
+  private getConflictResolver(path: string): ConflictResolver | undefined {
+    const field = decodeKeySegment(path.split('.')[0]) as keyof TState;
+    return this.options.conflictResolvers?.[field];
+  }
+
+  /**
+   * Apply a remote change through a custom conflict resolver. If the resolved value
+   * differs from the remote one it is written back, so all clients converge on it.
+   */
+  private applyResolvedChange(
+    resolver: ConflictResolver,
+    path: string,
+    value: unknown,
+    currentState: TState,
+    versions: Pick<ConflictResolutionMeta, 'key' | 'localVersion' | 'remoteVersion'>,
+  ): void {
+    const localValue = this.getValueAtPath(path, currentState);
+    // Remote updates are patches against the stored value, which matches the local one
+    const remoteValue = value === null ? undefined : applyMergePatch(localValue, value);
+    const segments = path.split('.').map(decodeKeySegment);
+
+    const resolvedValue = resolver(localValue, remoteValue, {
+      field: segments[0],
+      path: segments,
+      ...versions,
+    });
+
+    const update = this.checkRemoteUpdate(
+      this.merger.buildStateUpdate(path, resolvedValue, currentState),
+    );
+    if (update === null) {
+      return;
+    }
+    this.applyRemoteUpdate(update);
+    this.events.emit('conflict', {
+      path: segments,
+      local: localValue,
+      remote: remoteValue,
+      resolved: resolvedValue,
+      localVersion: versions.localVersion,
+      remoteVersion: versions.remoteVersion,
+    });
+    this.events.emit('remoteChange', {
+      path: segments,
+      value: resolvedValue,
+      clientId: versions.remoteVersion?.clientId,
+    });
+
+    if (this.diffManager.isDeepEqual(resolvedValue, remoteValue)) {
+      return;
+    }
+
+    const change: PendingChange =
+      resolvedValue === undefined || resolvedValue === null
+        ? { path, key: versions.key, operation: 'remove', timestamp: Date.now() }
+        : {
+            path,
+            key: versions.key,
+            operation: 'set',
+            value: this.diffManager.calculateDiff(remoteValue, resolvedValue).data,
+            timestamp: Date.now(),
+          };
+    this.writeChange(change).catch(error => {
+      this.logger.error(`Failed to write resolved value for path '${path}'`, error as Error);
+    });
+  }
+
+  /**
+   * Write a local value again after a stale change was stored over it. HPKV
+   * applies patches in the order they arrive, so a change that loses
+   * last-writer-wins on the clients can still be applied last to the stored
+   * value. The client that made the winning write sends it again with its
+   * original version, so clients hydrating later read the winning value too.
+   * Clients that already know that version ignore the write, so concurrent
+   * restores do not outrank each other.
+   *
+   * @param winningVersion Version of the local value, written by this client
+   * @param staleVersion Version the stored value carries after the stale change
+   * @param remoteValue Local value with the stale change applied, as stored now
+   */
+  private restoreWinningValue(
+    path: string,
+    winningVersion: KeyMetadata,
+    staleVersion: KeyMetadata | null,
+    localValue: unknown,
+    remoteValue: unknown,
+  ): void {
+    const { key } = winningVersion;
+    if (
+      staleVersion === null ||
+      compareVersions(staleVersion, winningVersion) >= 0 ||
+      !this.isConnected() ||
+      this.isOutdated() ||
+      // A local change that is not written yet replaces the stored value anyway
+      this.syncTracker.getStatus(candidate => candidate === key) === 'pending' ||
+      getWriteDenial(this.permissions, path.split('.').map(decodeKeySegment)) !== null ||
+      this.diffManager.isDeepEqual(localValue, remoteValue)
+    ) {
+      return;
+    }
+
+    // Deletions are versioned by the server, so a restored deletion gets a new version
+    const restore =
+      localValue === undefined
+        ? this.client.removeItem(key)
+        : this.client.setItem(
+            key,
+            this.diffManager.calculateDiff(remoteValue, localValue).data,
+            winningVersion.timestamp,
+          );
+    restore.catch(error => {
+      this.logger.error(`Failed to restore the winning value for path '${path}'`, error as Error);
+    });
   }
 
   /**
@@ -119,7 +506,10 @@ export class Orchestrator<TState> {
    */
   private async syncToRemote(newState: TState, oldState: TState): Promise<void> {
     const syncFields = this.options.sync ?? [];
-    const syncOperations = this.buildSyncOperations(newState, oldState, syncFields);
+    const syncOperations =
+      this.options.atomicUpdates === true && this.openTransaction === null
+        ? [this.transaction(() => this.buildSyncOperations(newState, oldState, syncFields))]
+        : this.buildSyncOperations(newState, oldState, syncFields);
 
     if (syncOperations.length > 0) {
       try {
@@ -169,6 +559,11 @@ export class Orchestrator<TState> {
       return { deletions: [], updates: [] };
     }
 
+    const crdtField = this.crdtFields.get(fieldStr);
+    if (crdtField !== undefined) {
+      return this.syncCrdtChange(fieldStr, crdtField, currentValue, previousValue);
+    }
+
     // Extract paths from old and new values and compare them to find changes
     const oldPaths = this.extractFieldPaths(previousValue, fieldStr, zFactor);
     const newPaths = this.extractFieldPaths(currentValue, fieldStr, zFactor);
@@ -216,7 +611,14 @@ export class Orchestrator<TState> {
     // Process deletions and updates in single pass
     for (const [pathKey, _oldValue] of oldPathMap) {
       if (!newPathMap.has(pathKey)) {
-        operations.deletions.push(this.client.removeItem(this.createStorageKey(pathKey)));
+        operations.deletions.push(
+          this.writeChange({
+            path: pathKey,
+            key: this.createStorageKey(pathKey),
+            operation: 'remove',
+            timestamp: Date.now(),
+          }),
+        );
       }
     }
 
@@ -224,7 +626,15 @@ export class Orchestrator<TState> {
       const oldValue = oldPathMap.get(pathKey);
       if (oldValue !== newValue) {
         const diff = this.diffManager.calculateDiff(oldValue, newValue);
-        operations.updates.push(this.client.setItem(this.createStorageKey(pathKey), diff.data));
+        operations.updates.push(
+          this.writeChange({
+            path: pathKey,
+            key: this.createStorageKey(pathKey),
+            operation: 'set',
+            value: diff.data,
+            timestamp: Date.now(),
+          }),
+        );
       }
     }
 
@@ -232,121 +642,1115 @@ export class Orchestrator<TState> {
   }
 
   // ============================================================================
-  // STATE HYDRATION
+  // CRDT FIELDS
   // ============================================================================
 
   /**
-   * Hydrate the local state from remote storage
+   * Record a local change of a CRDT field and write the entries it touched
    */
-  async hydrate(): Promise<void> {
-    if (this.isHydrating) {
-      return;
+  private syncCrdtChange(
+    field: string,
+    crdtField: CrdtField,
+    currentValue: unknown,
+    previousValue: unknown,
+  ): { deletions: Promise<void>[]; updates: Promise<void>[] } {
+    return this.syncCrdtWrites(field, crdtField.applyLocalChange(previousValue, currentValue));
+  }
+
+  /**
+   * Write the entries touched by a local change of a CRDT field
+   */
+  private syncCrdtWrites(
+    field: string,
+    writes: CrdtFieldWrite[],
+  ): { deletions: Promise<void>[]; updates: Promise<void>[] } {
+    const operations = { deletions: [] as Promise<void>[], updates: [] as Promise<void>[] };
+
+    for (const write of writes) {
+      const path = this.createCrdtPath(field, write.entryId);
+      const change = this.writeChange({
+        path,
+        key: this.createStorageKey(path),
+        operation: write.operation,
+        value: write.value,
+        timestamp: Date.now(),
+      });
+      (write.operation === 'remove' ? operations.deletions : operations.updates).push(change);
     }
 
-    this.isHydrating = true;
+    return operations;
+  }
 
-    try {
-      const hydratedState = await this.loadRemoteState();
-      this.api.setState(hydratedState, false);
-      this.completeHydration();
-    } catch (error) {
-      this.logger.error('State hydration failed', error as Error);
-      throw error;
-    } finally {
-      this.isHydrating = false;
+  /**
+   * Apply a stored entry to its CRDT field
+   *
+   * @returns Whether the path belongs to a CRDT field
+   */
+  private applyCrdtItem(path: string, value: unknown): boolean {
+    const entry = this.parseCrdtPath(path);
+    if (entry === null) {
+      return false;
+    }
+
+    if (entry.entryId !== null) {
+      this.crdtFields.get(entry.field)?.applyRemoteChange(entry.entryId, value);
     }
+    return true;
   }
 
   /**
-   * Load and reconstruct state from remote storage
+   * Replace the CRDT fields with stored entries, keeping entries with pending local changes
    */
-  private async loadRemoteState(): Promise<Partial<TState>> {
-    const allItems = await this.client.getAllItems();
-    const hydratedState: Partial<TState> = {};
+  private loadCrdtFields(items: Array<[string, unknown]>, pendingPaths: ReadonlySet<string>): void {
+    for (const [field, crdtField] of this.crdtFields) {
+      const entries: Array<[string, unknown]> = [];
+      const pendingEntryIds = new Set<string>();
 
-    for (const [key, value] of allItems.entries()) {
-      const path = this.parseStorageKey(key);
-      const pathSegments = path.split('.');
-      this.merger.setNestedValue(hydratedState, pathSegments, value);
+      for (const [path, value] of items) {
+        const entry = this.parseCrdtPath(path);
+        if (entry?.field === field && entry.entryId !== null) {
+          entries.push([entry.entryId, value]);
+        }
+      }
+      for (const path of pendingPaths) {
+        const entry = this.parseCrdtPath(path);
+        if (entry?.field === field && entry.entryId !== null) {
+          pendingEntryIds.add(entry.entryId);
+        }
+      }
+
+      crdtField.load(entries, pendingEntryIds);
     }
+  }
 
-    return hydratedState;
+  private buildCrdtState(fields: Iterable<string>): Partial<TState> {
+    const state: Record<string, unknown> = {};
+    for (const field of fields) {
+      const crdtField = this.crdtFields.get(field);
+      if (crdtField !== undefined) {
+        state[field] = crdtField.getValue();
+      }
+    }
+    return state as Partial<TState>;
   }
 
   /**
-   * Complete the hydration process and update metrics
+   * Split a path of a CRDT field into the field and the entry id
+   *
+   * @returns null if the path does not belong to a CRDT field
    */
-  private completeHydration(): void {
-    this.hasHydrated = true;
+  private parseCrdtPath(path: string): { field: string; entryId: string | null } | null {
+    const segments = path.split('.');
+    const field = decodeKeySegment(segments[0]);
+    if (!this.crdtFields.has(field)) {
+      return null;
+    }
+    return { field, entryId: segments.length === 2 ? decodeKeySegment(segments[1]) : null };
+  }
 
-    this.updateMultiplayerState({
-      hasHydrated: true,
-      performanceMetrics: this.performanceMonitor.getMetrics(),
-    });
-    this.logger.debug('Store was hydrated from remote storage', {
-      clientId: this.client.getClientId(),
-    });
+  private isCrdtPath(path: string): boolean {
+    return this.parseCrdtPath(path) !== null;
+  }
+
+  private createCrdtPath(field: string, entryId: string): string {
+    return `${encodeKeySegment(field)}.${encodeKeySegment(entryId)}`;
   }
 
   // ============================================================================
-  // STORAGE KEY UTILITIES
+  // UNDO / REDO
   // ============================================================================
 
   /**
-   * Create a storage key from a state path
+   * Sync fields whose local changes are recorded for undo. List and text fields
+   * merge concurrent edits per item or character and are not tracked.
    */
-  private createStorageKey(path: string): string {
-    const pathArray = path.split('.');
-    return this.keyManager.createStorageKey(pathArray);
+  private getUndoFields(): string[] {
+    const syncFields = (this.options.sync ?? []).map(String);
+    const fields = this.options.undo?.fields?.map(String) ?? syncFields;
+
+    return fields.filter(field => {
+      const kind = this.options.fieldTypes?.[field]?.kind;
+      if (kind === 'list' || kind === 'text') {
+        this.logger.debug(`Changes of ${kind} field '${field}' are not tracked for undo`);
+        return false;
+      }
+      return syncFields.includes(field);
+    });
   }
 
   /**
-   * Parse a storage key back to a state path
+   * Collect the changes of a local state update per storage path
    */
-  private parseStorageKey(key: string): string {
-    const statePath = this.keyManager.parseStorageKey(key);
-    return statePath.segments.join('.');
+  private collectUndoChanges(newState: TState, oldState: TState): UndoChange[] {
+    const changes: UndoChange[] = [];
+    const zFactor = this.options.zFactor ?? DEFAULT_Z_FACTOR;
+
+    for (const field of this.undoFields) {
+      const currentValue = (newState as Record<string, unknown>)[field];
+      const previousValue = (oldState as Record<string, unknown>)[field];
+      if (this.shouldSkipField(field, currentValue, previousValue)) {
+        continue;
+      }
+
+      // Counters are undone by applying the inverse increment
+      if (this.crdtFields.has(field)) {
+        changes.push({ path: field, before: previousValue, after: currentValue });
+        continue;
+      }
+
+      const oldPaths = new Map(
+        this.extractFieldPaths(previousValue, field, zFactor).map(p => [p.path.join('.'), p.value]),
+      );
+      const newPaths = new Map(
+        this.extractFieldPaths(currentValue, field, zFactor).map(p => [p.path.join('.'), p.value]),
+      );
+      for (const path of new Set([...oldPaths.keys(), ...newPaths.keys()])) {
+        const before = oldPaths.get(path);
+        const after = newPaths.get(path);
+        if (before !== after) {
+          changes.push({ path, before, after });
+        }
+      }
+    }
+
+    return changes;
   }
 
-  private updateMultiplayerState(updates: Partial<MultiplayerState>): void {
-    this.api.setState(state => {
-      const stateWithMultiplayer = state as TState & { multiplayer: MultiplayerState };
-      return {
-        ...state,
-        multiplayer: { ...stateWithMultiplayer.multiplayer, ...updates },
-      };
-    }, false);
+  /**
+   * Revert the changes of an undo (or redo) step that still hold their value.
+   * Paths changed since by other clients are left alone.
+   *
+   * @returns The state update and the changes needed to revert it again
+   */
+  private revertChanges(changes: UndoChange[]): {
+    update: Record<string, unknown>;
+    inverse: UndoChange[];
+  } {
+    const state = this.api.getState() as Record<string, unknown>;
+    const update: Record<string, unknown> = {};
+    const inverse: UndoChange[] = [];
+
+    for (const change of [...changes].reverse()) {
+      const segments = change.path.split('.').map(decodeKeySegment);
+      const field = segments[0];
+      const current = this.getValueAtPath(change.path);
+
+      if (this.crdtFields.has(field)) {
+        if (
+          typeof current !== 'number' ||
+          typeof change.before !== 'number' ||
+          typeof change.after !== 'number'
+        ) {
+          continue;
+        }
+        const reverted = current + change.before - change.after;
+        update[field] = reverted;
+        inverse.unshift({ path: change.path, before: current, after: reverted });
+        continue;
+      }
+
+      if (!this.diffManager.isDeepEqual(current, change.after)) {
+        continue;
+      }
+
+      const fieldValue = field in update ? update[field] : state[field];
+      update[field] = this.replaceAtPath(fieldValue, segments.slice(1), change.before);
+      inverse.unshift({ path: change.path, before: change.after, after: change.before });
+    }
+
+    return { update, inverse };
+  }
+
+  /**
+   * Copy a field value with the value at a path replaced. An undefined replacement
+   * removes the value, along with nested objects left empty by the removal.
+   */
+  private replaceAtPath(
+    value: unknown,
+    segments: string[],
+    replacement: unknown,
+    depth = 0,
+  ): unknown {
+    if (segments.length === 0) {
+      return replacement;
+    }
+
+    const copy: Record<string, unknown> = isPlainObject(value) ? { ...value } : {};
+    const child = this.replaceAtPath(copy[segments[0]], segments.slice(1), replacement, depth + 1);
+    if (child !== undefined) {
+      copy[segments[0]] = child;
+      return copy;
+    }
+
+    delete copy[segments[0]];
+    return depth > 0 && Object.keys(copy).length === 0 ? undefined : copy;
+  }
+
+  /**
+   * Apply the most recent applicable step of a stack as a new local change
+   *
+   * @returns Whether a step was applied
+   */
+  private async applyUndoStep(
+    pop: () => UndoChange[] | undefined,
+    pushInverse: (changes: UndoChange[]) => void,
+  ): Promise<boolean> {
+    for (let step = pop(); step !== undefined; step = pop()) {
+      const { update, inverse } = this.revertChanges(step);
+      if (inverse.length === 0) {
+        continue;
+      }
+
+      pushInverse(inverse);
+      const oldState = this.api.getState();
+      this.api.setState(update as Partial<TState>, false);
+      await this.syncToRemote(this.api.getState(), oldState);
+      return true;
+    }
+    return false;
   }
 
   // ============================================================================
-  // PUBLIC API
+  // OFFLINE QUEUE
   // ============================================================================
 
-  async clearStorage(): Promise<void> {
-    await this.client.clear();
-    this.logger.debug('Cleared store items', { clientId: this.client.getClientId() });
+  /**
+   * Write a change to remote storage, or queue it while the connection is unavailable
+   */
+  private async writeChange(change: PendingChange): Promise<void> {
+    const seq = this.syncTracker.request(change.key);
+    this.acknowledgements?.push(this.syncTracker.waitFor(change.key, seq));
+    if (this.refuseOutdatedWrite(change) || this.refuseDeniedWrite(change)) {
+      return;
+    }
+
+    const window = this.batcher.getWindow(decodeKeySegment(change.path.split('.')[0]));
+    if (this.openTransaction === null && window > 0 && this.isConnected()) {
+      this.batcher.add(change, window);
+      return;
+    }
+
+    // A batched change to the key is older, so it is written together with this one
+    const batched = this.batcher.take(change.key);
+    if (batched !== undefined) {
+      change = coalesceChanges(batched, change);
+    }
+
+    if (this.openTransaction !== null) {
+      this.openTransaction.merge(change);
+      return;
+    }
+
+    await this.writeNow(change);
   }
 
-  async connect(): Promise<void> {
+  /**
+   * Write a change without batching it
+   */
+  private async writeNow(change: PendingChange): Promise<void> {
+    if (this.refuseOutdatedWrite(change) || this.refuseDeniedWrite(change)) {
+      return;
+    }
+
+    if (!this.isConnected()) {
+      this.enqueueChange(change);
+      return;
+    }
+
+    // Keep queued changes ahead of new ones so replay order is preserved
+    if (this.isFlushing || this.offlineQueue.size > 0) {
+      this.enqueueChange(change);
+      await this.flushPendingChanges();
+      return;
+    }
+
     try {
-      await this.client.ensureConnection();
-      if (this.client.getConnectionStatus()?.connectionState === ConnectionState.CONNECTED) {
-        this.updateMultiplayerState({ connectionState: ConnectionState.CONNECTED });
-      }
+      await this.applyChange(change);
     } catch (error) {
-      this.logger.error('Failed to connect to remote storage', error as Error);
-      throw error;
+      if (this.isConnected()) {
+        throw error;
+      }
+      this.enqueueChange(change);
     }
   }
 
-  async disconnect(): Promise<void> {
-    await this.client.close();
-    this.updateMultiplayerState({ connectionState: ConnectionState.DISCONNECTED });
+  private enqueueChange(change: PendingChange): void {
+    this.offlineQueue.merge(change);
+    this.logger.debug(`Queued ${change.operation} for path '${change.path}' until reconnected`, {
+      clientId: this.client.getClientId(),
+    });
   }
 
-  destroy(): Promise<void> {
-    this.cleanup();
-    return Promise.resolve();
+  /**
+   * Write changes whose batching window has ended
+   */
+  private async writeBatchedChanges(changes: PendingChange[]): Promise<void> {
+    try {
+      await Promise.all(changes.map(change => this.writeNow(change)));
+      this.updateMultiplayerState({ performanceMetrics: this.performanceMonitor.getMetrics() });
+    } catch (error) {
+      this.logger.error('Failed to sync changes to remote storage', error as Error);
+    }
+  }
+
+  private async applyChange(
+    change: PendingChange,
+    version: KeyMetadata = this.createLocalVersion(change),
+  ): Promise<void> {
+    this.versions.update(version);
+    const seq = this.syncTracker.startWrite(change.key);
+
+    try {
+      await (change.operation === 'remove'
+        ? this.client.removeItem(change.key)
+        : this.client.setItem(change.key, change.value, version.timestamp));
+    } catch (error) {
+      // Changes that fail while disconnected stay queued
+      if (this.isConnected()) {
+        this.reportWriteError(change, error as Error, seq);
+      }
+      throw error;
+    }
+    this.syncTracker.complete(change.key, seq);
+    this.events.emit('localSync', {
+      path: change.path.split('.').map(decodeKeySegment),
+      operation: change.operation,
+    });
+  }
+
+  /**
+   * Settle the unwritten changes to a key as failed
+   */
+  private reportWriteError(change: PendingChange, error: Error, seq?: number): void {
+    if (this.syncTracker.fail(change.key, error, seq)) {
+      this.events.emit('syncError', { path: change.path.split('.').map(decodeKeySegment), error });
+    }
+  }
+
+  /**
+   * Version for a local write. It is always newer than the version already known
+   * for the key, so other clients never discard it because of clock skew.
+   */
+  private createLocalVersion(change: PendingChange): KeyMetadata {
+    const current = this.versions.get(change.key);
+    return {
+      key: change.key,
+      timestamp: Math.max(Date.now(), (current?.timestamp ?? 0) + 1),
+      clientId: this.client.getClientId(),
+      deleted: change.operation === 'remove',
+    };
+  }
+
+  /**
+   * Replay queued changes in order. Stops (keeping the remaining changes queued)
+   * if the connection drops; changes rejected while connected are dropped.
+   */
+  private async flushPendingChanges(): Promise<void> {
+    if (this.isFlushing || this.offlineQueue.size === 0) {
+      return;
+    }
+
+    // Changes made on an outdated state version are never written
+    if (this.isOutdated()) {
+      let change = this.offlineQueue.dequeue();
+      while (change !== undefined) {
+        this.refuseOutdatedWrite(change);
+        change = this.offlineQueue.dequeue();
+      }
+      this.scheduleLocalSave();
+      return;
+    }
+
+    this.isFlushing = true;
+    this.logger.debug(`Flushing ${this.offlineQueue.size} queued changes`, {
+      clientId: this.client.getClientId(),
+    });
+
+    try {
+      let change = this.offlineQueue.dequeue();
+      while (change !== undefined) {
+        try {
+          // The token may have changed since the change was queued
+          if (!this.refuseDeniedWrite(change)) {
+            await this.applyChange(change);
+          }
+        } catch (error) {
+          if (!this.isConnected()) {
+            this.offlineQueue.requeue(change);
+            break;
+          }
+          this.logger.error(
+            `Dropped queued ${change.operation} for path '${change.path}'`,
+            error as Error,
+          );
+        }
+        change = this.isConnected() ? this.offlineQueue.dequeue() : undefined;
+      }
+      this.scheduleLocalSave();
+      this.updateMultiplayerState({ performanceMetrics: this.performanceMonitor.getMetrics() });
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  private isConnected(): boolean {
+    return this.client.getConnectionStatus()?.connectionState === ConnectionState.CONNECTED;
+  }
+
+  // ============================================================================
+  // TRANSACTIONS
+  // ============================================================================
+
+  /**
+   * Write changes as one unit. The transaction record is written first so other
+   * clients can apply all changes at once; the changes are then written under
+   * their own keys with the same versions, which receivers recognize as applied.
+   * The record is removed once the changes are written under their own keys.
+   */
+  private async commitTransaction(changes: PendingChange[]): Promise<void> {
+    // Queued changes are replayed per key, so a transaction made offline is not atomic
+    if (
+      changes.length < 2 ||
+      this.isOutdated() ||
+      !this.isConnected() ||
+      this.isFlushing ||
+      this.offlineQueue.size > 0
+    ) {
+      await Promise.all(changes.map(change => this.writeNow(change)));
+      return;
+    }
+
+    const versions = changes.map(change => this.createLocalVersion(change));
+    const record: TransactionRecord = {
+      writes: changes.map((change, index) => ({
+        path: change.path,
+        operation: change.operation,
+        ...(change.operation === 'set' ? { value: change.value } : {}),
+        timestamp: versions[index].timestamp,
+      })),
+    };
+
+    const key = this.getTransactionKey(this.client.getClientId());
+    try {
+      await this.client.setItem(key, record);
+      await Promise.all(changes.map((change, index) => this.applyChange(change, versions[index])));
+      this.removeTransactionRecord(key);
+    } catch (error) {
+      if (this.isConnected()) {
+        changes.forEach(change => this.reportWriteError(change, error as Error));
+        throw error;
+      }
+      changes.forEach(change => this.enqueueChange(change));
+    }
+  }
+
+  /**
+   * Apply the transaction of another client to the store in a single update
+   *
+   * @returns Whether the key is a transaction key
+   */
+  private handleRemoteTransaction(event: StorageChangeEvent): boolean {
+    const clientId = this.parseTransactionKey(event.key);
+    if (clientId === null) {
+      return false;
+    }
+    if (clientId === this.client.getClientId() || !isTransactionRecord(event.value)) {
+      return true;
+    }
+
+    this.logger.debug(`Received remote transaction with ${event.value.writes.length} writes`, {
+      clientId: this.client.getClientId(),
+    });
+
+    this.stagedTransaction = { state: this.api.getState(), update: {} };
+    try {
+      for (const write of event.value.writes) {
+        this.handleRemoteChange({
+          key: this.createStorageKey(write.path),
+          value: write.operation === 'remove' ? null : write.value,
+          timestamp: write.timestamp,
+          clientId,
+        });
+      }
+    } finally {
+      const { update } = this.stagedTransaction;
+      this.stagedTransaction = null;
+      if (Object.keys(update).length > 0) {
+        this.api.setState(update, false);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Remove a transaction record. Connected clients received it when it was
+   * written, and clients that hydrate later read its writes under their own keys.
+   */
+  private removeTransactionRecord(key: string): void {
+    this.client.removeItem(key).catch((error: unknown) => {
+      this.logger.debug(`Failed to remove transaction record: ${String(error)}`);
+    });
+  }
+
+  private isTransactionKey(key: string): boolean {
+    return this.parseTransactionKey(key) !== null;
+  }
+
+  private getTransactionKey(clientId: string): string {
+    return this.keyManager.createStorageKey([TRANSACTION_KEY_SEGMENT, encodeKeySegment(clientId)]);
+  }
+
+  private parseTransactionKey(key: string): string | null {
+    const { segments } = this.keyManager.parseStorageKey(key);
+    if (segments.length !== 2 || segments[0] !== TRANSACTION_KEY_SEGMENT) {
+      return null;
+    }
+    return decodeKeySegment(segments[1]);
+  }
+
+  // ============================================================================
+  // STATE HYDRATION
+  // ============================================================================
+
+  /**
+   * Hydrate the local state from remote storage
+   */
+  async hydrate(): Promise<void> {
+    if (this.isHydrating) {
+      return;
+    }
+
+    this.isHydrating = true;
+
+    try {
+      // Queued changes must not be written over state of a newer version
+      if (this.offlineQueue.size > 0) {
+        this.storedStateVersion = this.readStateVersion(await this.client.getAllItems());
+      }
+      await this.flushPendingChanges();
+      const hydratedState = await this.loadRemoteState();
+      this.api.setState(hydratedState, false);
+      this.completeHydration();
+    } catch (error) {
+      this.logger.error('State hydration failed', error as Error);
+      throw error;
+    } finally {
+      this.isHydrating = false;
+    }
+  }
+
+  /**
+   * Load and reconstruct state from remote storage, migrating state stored with
+   * an older state version
+   */
+  private async loadRemoteState(): Promise<Partial<TState>> {
+    const allItems = await this.client.getAllItems();
+    this.storedStateVersion = this.readStateVersion(allItems);
+
+    // Local changes that could not be flushed yet take precedence over remote values
+    const pendingChanges = this.offlineQueue.getAll();
+    const localPaths = pendingChanges
+      .filter(change => change.operation === 'set' && !this.isCrdtPath(change.path))
+      .map(change => change.path);
+    const pendingCrdtPaths = new Set(
+      pendingChanges.map(change => change.path).filter(path => this.isCrdtPath(path)),
+    );
+    const remoteItems: Array<[string, unknown]> = [];
+
+    const presenceItems: Array<[string, StoredValue]> = [];
+
+    for (const [key, storedValue] of allItems) {
+      // Presence entries are not part of the state
+      if (this.presence.isPresenceKey(key)) {
+        presenceItems.push([key, storedValue]);
+        continue;
+      }
+
+      // The writes of transactions are stored under their own keys as well
+      if (this.isTransactionKey(key)) {
+        // Left by a client that stopped before its writes were complete
+        if (this.parseTransactionKey(key) !== this.client.getClientId()) {
+          this.removeTransactionRecord(key);
+        }
+        continue;
+      }
+      if (this.isStateVersionKey(key)) {
+        continue;
+      }
+
+      const path = this.parseStorageKey(key);
+
+      // CRDT entries are merged by their field and need no precedence rules
+      if (this.isCrdtPath(path)) {
+        remoteItems.push([key, storedValue.value]);
+        continue;
+      }
+
+      if (this.offlineQueue.get(key) !== undefined) {
+        continue;
+      }
+
+      // So do local values written after the stored ones
+      if (storedValue.timestamp !== undefined) {
+        const version: KeyMetadata = {
+          key: this.createStorageKey(path),
+          timestamp: storedValue.timestamp,
+          clientId: storedValue.clientId ?? '',
+          deleted: false,
+        };
+        const current = this.versions.get(version.key);
+        if (current !== undefined && compareVersions(current, version) > 0) {
+          if (!current.deleted) {
+            localPaths.push(path);
+          }
+          continue;
+        }
+        this.versions.update(version);
+      }
+
+      remoteItems.push([key, storedValue.value]);
+    }
+
+    this.presence.load(presenceItems);
+    const hydratedState = await this.migrateRemoteState(
+      this.buildStateFromItems(remoteItems, pendingCrdtPaths),
+      remoteItems.length > 0,
+    );
+    for (const path of localPaths) {
+      this.merger.setNestedValue(hydratedState, path.split('.'), this.getValueAtPath(path));
+    }
+
+    // Rejected fields keep their local value
+    for (const field of Object.keys(hydratedState) as Array<keyof TState>) {
+      const checked = this.checkRemoteUpdate({ [field]: hydratedState[field] } as Partial<TState>);
+      if (checked === null) {
+        delete hydratedState[field];
+      } else {
+        hydratedState[field] = checked[field];
+      }
+    }
+
+    return hydratedState;
+  }
+
+  /**
+   * Reconstruct (partial) state from storage keys and their values
+   *
+   * @param pendingCrdtPaths Paths of CRDT entries whose local changes are not written yet
+   */
+  private buildStateFromItems(
+    items: Iterable<[string, unknown]>,
+    pendingCrdtPaths: ReadonlySet<string> = new Set(),
+  ): Partial<TState> {
+    const state: Partial<TState> = {};
+    const crdtItems: Array<[string, unknown]> = [];
+
+    for (const [key, value] of items) {
+      const path = this.parseStorageKey(key);
+      if (this.isCrdtPath(path)) {
+        crdtItems.push([path, value]);
+        continue;
+      }
+      const pathSegments = path.split('.');
+      this.merger.setNestedValue(state, pathSegments, value);
+    }
+
+    this.loadCrdtFields(crdtItems, pendingCrdtPaths);
+    return { ...state, ...this.buildCrdtState(this.crdtFields.keys()) };
+  }
+
+  private getValueAtPath(path: string, state: TState = this.api.getState()): unknown {
+    let current: unknown = state;
+    for (const segment of path.split('.')) {
+      if (!isPlainObject(current)) {
+        return undefined;
+      }
+      current = current[decodeKeySegment(segment)];
+    }
+    return current;
+  }
+
+  /**
+   * Complete the hydration process and update metrics
+   */
+  private completeHydration(): void {
+    this.hasHydrated = true;
+
+    this.updateMultiplayerState({
+      hasHydrated: true,
+      performanceMetrics: this.performanceMonitor.getMetrics(),
+    });
+    this.logger.debug('Store was hydrated from remote storage', {
+      clientId: this.client.getClientId(),
+    });
+    this.events.emit('hydrated', undefined);
+  }
+
+  // ============================================================================
+  // STATE VERSIONING
+  // ============================================================================
+
+  /**
+   * Migrate state stored with an older state version, write the migrated state
+   * back and record the new version
+   *
+   * @param hasStoredState Whether the namespace holds any state to migrate
+   * @returns The state to hydrate
+   */
+  private async migrateRemoteState(
+    remoteState: Partial<TState>,
+    hasStoredState: boolean,
+  ): Promise<Partial<TState>> {
+    const fromVersion = this.storedStateVersion;
+    if (fromVersion >= this.stateVersion) {
+      if (this.isOutdated()) {
+        this.logger.warn(
+          `Stored state has version ${fromVersion}, newer than version ${this.stateVersion} of this client; local changes will not be synced`,
+          { clientId: this.client.getClientId() },
+        );
+      }
+      return remoteState;
+    }
+
+    let migratedState = remoteState;
+    if (hasStoredState && this.options.migrate !== undefined) {
+      this.logger.info(
+        `Migrating stored state from version ${fromVersion} to ${this.stateVersion}`,
+        {
+          clientId: this.client.getClientId(),
+        },
+      );
+      const result: unknown = await this.options.migrate(remoteState, fromVersion);
+      if (!isPlainObject(result)) {
+        throw new Error('migrate must return a state object');
+      }
+      migratedState = result as Partial<TState>;
+    } else if (hasStoredState) {
+      this.logger.warn(
+        `Stored state has version ${fromVersion} and no migrate function is provided; it is used as is`,
+        { clientId: this.client.getClientId() },
+      );
+    }
+
+    // Clients with a read-only token leave writing the migrated state to a client that may write
+    if (this.isReadOnly()) {
+      return migratedState;
+    }
+
+    if (migratedState !== remoteState) {
+      // Fields left out by the migration are removed from storage
+      const fields = new Set([...(this.options.sync ?? []), ...Object.keys(remoteState)]);
+      await this.transaction(() => {
+        this.buildSyncOperations(
+          migratedState as TState,
+          remoteState as TState,
+          [...fields] as Array<keyof TState>,
+        );
+      });
+    }
+    await this.client.setItem(this.getStateVersionKey(), { version: this.stateVersion });
+    this.storedStateVersion = this.stateVersion;
+    return migratedState;
+  }
+
+  /**
+   * Whether remote storage holds state of a newer version than this client's,
+   * which this client must not write to
+   */
+  private isOutdated(): boolean {
+    return this.storedStateVersion > this.stateVersion;
+  }
+
+  /**
+   * Settle a change as failed if this client is outdated
+   *
+   * @returns Whether the change was refused
+   */
+  private refuseOutdatedWrite(change: PendingChange): boolean {
+    if (!this.isOutdated()) {
+      return false;
+    }
+    this.reportWriteError(
+      change,
+      new Error(
+        `State version ${this.stateVersion} is older than the stored version ${this.storedStateVersion}`,
+      ),
+    );
+    return true;
+  }
+
+  /**
+   * Track the state version recorded by a client that migrated the stored state
+   *
+   * @returns Whether the key is the state version key
+   */
+  private handleRemoteStateVersion(event: StorageChangeEvent): boolean {
+    if (!this.isStateVersionKey(event.key)) {
+      return false;
+    }
+    if (isStateVersionRecord(event.value) && event.value.version > this.storedStateVersion) {
+      this.storedStateVersion = event.value.version;
+      if (this.isOutdated()) {
+        this.logger.warn(
+          `State was migrated to version ${this.storedStateVersion} by another client; local changes will not be synced`,
+          { clientId: this.client.getClientId() },
+        );
+      }
+    }
+    return true;
+  }
+
+  private readStateVersion(items: Map<string, StoredValue>): number {
+    for (const [key, { value }] of items) {
+      if (this.isStateVersionKey(key)) {
+        return isStateVersionRecord(value) ? value.version : 0;
+      }
+    }
+    return 0;
+  }
+
+  private isStateVersionKey(key: string): boolean {
+    const { segments } = this.keyManager.parseStorageKey(key);
+    return segments.length === 1 && segments[0] === STATE_VERSION_KEY_SEGMENT;
+  }
+
+  private getStateVersionKey(): string {
+    return this.keyManager.createStorageKey([STATE_VERSION_KEY_SEGMENT]);
+  }
+
+  // ============================================================================
+  // WRITE PERMISSIONS
+  // ============================================================================
+
+  /**
+   * Settle a change as failed if the access token does not permit it
+   *
+   * @returns Whether the change was refused
+   */
+  private refuseDeniedWrite(change: PendingChange): boolean {
+    const denial = getWriteDenial(this.permissions, change.path.split('.').map(decodeKeySegment));
+    if (denial === null) {
+      return false;
+    }
+    this.reportWriteError(change, new Error(denial));
+    return true;
+  }
+
+  /**
+   * Find a synced path changed between two states that the access token does not permit writing
+   *
+   * @returns The first denied path (unencoded) and the reason, or null if all changes may be written
+   */
+  private findDeniedWrite(
+    newState: TState,
+    oldState: TState,
+  ): { path: string[]; denial: string } | null {
+    if (this.permissions === undefined) {
+      return null;
+    }
+
+    const zFactor = this.options.zFactor ?? DEFAULT_Z_FACTOR;
+    for (const field of this.options.sync ?? []) {
+      const fieldStr = String(field);
+      const currentValue = (newState as Record<string, unknown>)[fieldStr];
+      const previousValue = (oldState as Record<string, unknown>)[fieldStr];
+      if (this.shouldSkipField(fieldStr, currentValue, previousValue)) {
+        continue;
+      }
+
+      const fieldDenial = getWriteDenial(this.permissions, [fieldStr]);
+      if (fieldDenial === null) {
+        continue;
+      }
+      // Entries of CRDT fields are not state paths, so these fields are only writable as a whole
+      if (this.crdtFields.has(fieldStr)) {
+        return { path: [fieldStr], denial: fieldDenial };
+      }
+
+      const oldPaths = new Map(
+        this.extractFieldPaths(previousValue, fieldStr, zFactor).map(p => [p.path.join('.'), p]),
+      );
+      const newPaths = new Map(
+        this.extractFieldPaths(currentValue, fieldStr, zFactor).map(p => [p.path.join('.'), p]),
+      );
+      const changedPaths = [
+        ...[...newPaths].filter(([key, p]) => oldPaths.get(key)?.value !== p.value),
+        ...[...oldPaths].filter(([key]) => !newPaths.has(key)),
+      ];
+      for (const [, { path: encodedPath }] of changedPaths) {
+        const path = encodedPath.map(decodeKeySegment);
+        const denial = getWriteDenial(this.permissions, path);
+        if (denial !== null) {
+          return { path, denial };
+        }
+      }
+    }
+    return null;
+  }
+
+  private isReadOnly(): boolean {
+    return this.permissions?.readOnly === true;
+  }
+
+  // ============================================================================
+  // LOCAL PERSISTENCE
+  // ============================================================================
+
+  /**
+   * Restore the last-known state and offline outbox saved on this device.
+   * Restored state is only applied while the store has not been hydrated from remote storage.
+   */
+  async restoreLocalState(): Promise<void> {
+    if (this.localCache === null) {
+      return;
+    }
+
+    try {
+      const snapshot = await this.localCache.load();
+      if (!snapshot) {
+        return;
+      }
+
+      // Changes made since startup are newer than the restored ones and stay queued after them
+      for (const change of [...snapshot.pendingChanges].reverse()) {
+        this.offlineQueue.requeue(change);
+        this.syncTracker.request(change.key);
+      }
+
+      if (!this.hasHydrated) {
+        this.api.setState(this.buildStateFromItems(Object.entries(snapshot.items)), false);
+      }
+
+      this.logger.debug(
+        `Restored local snapshot with ${snapshot.pendingChanges.length} pending changes`,
+        { clientId: this.client.getClientId() },
+      );
+    } catch (error) {
+      this.logger.error('Failed to restore local snapshot', error as Error);
+    }
+  }
+
+  private scheduleLocalSave(): void {
+    if (this.localCache === null || this.localSaveTimer !== null) {
+      return;
+    }
+
+    this.localSaveTimer = setTimeout(() => {
+      this.localSaveTimer = null;
+      void this.saveLocalState();
+    }, LOCAL_SNAPSHOT_SAVE_DELAY);
+  }
+
+  private async saveLocalState(): Promise<void> {
+    if (this.localCache === null) {
+      return;
+    }
+
+    try {
+      await this.localCache.save(
+        this.collectStateItems(this.api.getState()),
+        this.offlineQueue.getAll(),
+      );
+    } catch (error) {
+      this.logger.error('Failed to save local snapshot', error as Error);
+    }
+  }
+
+  /**
+   * Collect the synced values of a state keyed by their storage keys
+   */
+  private collectStateItems(state: TState): Map<string, unknown> {
+    const items = new Map<string, unknown>();
+    const zFactor = this.options.zFactor ?? DEFAULT_Z_FACTOR;
+
+    for (const field of this.options.sync ?? []) {
+      const fieldStr = String(field);
+      const value = (state as Record<string, unknown>)[fieldStr];
+      if (fieldStr === 'multiplayer' || typeof value === 'function') {
+        continue;
+      }
+      const crdtField = this.crdtFields.get(fieldStr);
+      if (crdtField !== undefined) {
+        for (const [entryId, entry] of crdtField.getEntries()) {
+          items.set(this.createStorageKey(this.createCrdtPath(fieldStr, entryId)), entry);
+        }
+        continue;
+      }
+      for (const { path, value: pathValue } of this.extractFieldPaths(value, fieldStr, zFactor)) {
+        items.set(this.createStorageKey(path.join('.')), pathValue);
+      }
+    }
+
+    return items;
+  }
+
+  // ============================================================================
+  // STORAGE KEY UTILITIES
+  // ============================================================================
+
+  /**
+   * Create a storage key from a state path
+   */
+  private createStorageKey(path: string): string {
+    const pathArray = path.split('.');
+    return this.keyManager.createStorageKey(pathArray);
+  }
+
+  /**
+   * Parse a storage key back to a state path
+   */
+  private parseStorageKey(key: string): string {
+    const statePath = this.keyManager.parseStorageKey(key);
+    return statePath.segments.join('.');
+  }
+
+  private updateMultiplayerState(updates: Partial<MultiplayerState>): void {
+    this.api.setState(state => {
+      const stateWithMultiplayer = state as TState & { multiplayer: MultiplayerState };
+      return {
+        ...state,
+        multiplayer: { ...stateWithMultiplayer.multiplayer, ...updates },
+      };
+    }, false);
+  }
+
+  // ============================================================================
+  // PUBLIC API
+  // ============================================================================
+
+  async clearStorage(): Promise<void> {
+    await this.client.clear();
+    this.logger.debug('Cleared store items', { clientId: this.client.getClientId() });
+  }
+
+  async connect(): Promise<void> {
+    try {
+      await this.client.ensureConnection();
+      if (this.client.getConnectionStatus()?.connectionState === ConnectionState.CONNECTED) {
+        this.updateMultiplayerState({ connectionState: ConnectionState.CONNECTED });
+      }
+    } catch (error) {
+      this.logger.error('Failed to connect to remote storage', error as Error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    await this.batcher.flush();
+    await this.presence.stop(true);
+    await this.client.close();
+    this.updateMultiplayerState({ connectionState: ConnectionState.DISCONNECTED });
+  }
+
+  async destroy(): Promise<void> {
+    await this.batcher.flush();
+    if (this.localSaveTimer !== null) {
+      clearTimeout(this.localSaveTimer);
+      this.localSaveTimer = null;
+      await this.saveLocalState();
+    }
+    await this.presence.stop(true);
+    this.cleanup();
   }
 
   getConnectionStatus(): ConnectionStats | null {
@@ -357,9 +1761,198 @@ export class Orchestrator<TState> {
     return this.performanceMonitor.getMetrics();
   }
 
+  getPendingChanges(): PendingChange[] {
+    return this.offlineQueue.getAll();
+  }
+
+  /**
+   * Get the version of the value currently held for a state path. The path may point
+   * inside a stored value (e.g. a single property when zFactor stores whole objects).
+   *
+   * @param path Dot separated path or array of path segments (unencoded)
+   */
+  getKeyMetadata(path: string | string[]): KeyMetadata | null {
+    const segments = (typeof path === 'string' ? path.split('.') : path).map(encodeKeySegment);
+
+    for (let length = segments.length; length > 0; length--) {
+      const metadata = this.versions.get(
+        this.keyManager.createStorageKey(segments.slice(0, length)),
+      );
+      if (metadata !== undefined) {
+        return { ...metadata };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Apply a state update like `set` and wait until it is written to remote storage
+   *
+   * @returns Resolves once all writes of the update are acknowledged, rejects if one fails
+   */
+  async setAndSync(
+    partial: TState | Partial<TState> | ((state: TState) => TState | Partial<TState>),
+    replace?: boolean,
+  ): Promise<void> {
+    const acknowledgements: Array<Promise<void>> = [];
+    const previous = this.acknowledgements;
+    this.acknowledgements = acknowledgements;
+    let sync: Promise<void>;
+    try {
+      sync = this.handleLocalStateChange(partial, replace);
+    } finally {
+      this.acknowledgements = previous;
+    }
+    await Promise.all([sync, ...acknowledgements]);
+  }
+
+  /**
+   * Whether the local changes to a state path and the paths below it are written
+   *
+   * @param path Dot separated path or array of path segments (unencoded)
+   */
+  getSyncStatus(path: string | string[]): SyncStatus {
+    const segments = (typeof path === 'string' ? path.split('.') : path).map(encodeKeySegment);
+    const key = this.keyManager.createStorageKey(segments);
+    return this.syncTracker.getStatus(
+      candidate =>
+        candidate === key || candidate.startsWith(`${key}:`) || key.startsWith(`${candidate}:`),
+    );
+  }
+
+  /**
+   * Apply text operations to a text field and sync them
+   *
+   * @param field Sync field declared with the `text()` field type
+   */
+  async editText(field: string, operations: TextOperation[]): Promise<void> {
+    const crdtField = this.crdtFields.get(field);
+    if (!(crdtField instanceof TextField)) {
+      throw new Error(`Field '${field}' is not a text field`);
+    }
+
+    const { deletions, updates } = this.syncCrdtWrites(
+      field,
+      crdtField.applyOperations(operations),
+    );
+    this.api.setState(this.buildCrdtState([field]), false);
+
+    try {
+      await Promise.all([...deletions, ...updates]);
+      this.updateMultiplayerState({ performanceMetrics: this.performanceMonitor.getMetrics() });
+    } catch (error) {
+      this.logger.error('Failed to sync changes to remote storage', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revert the most recent local change that can still be reverted
+   *
+   * @returns Whether a change was undone
+   */
+  undo(): Promise<boolean> {
+    return this.applyUndoStep(
+      () => this.undoManager.popUndo(),
+      changes => this.undoManager.pushRedo(changes),
+    );
+  }
+
+  /**
+   * Re-apply the most recently undone change
+   *
+   * @returns Whether a change was redone
+   */
+  redo(): Promise<boolean> {
+    return this.applyUndoStep(
+      () => this.undoManager.popRedo(),
+      changes => this.undoManager.pushUndo(changes),
+    );
+  }
+
+  canUndo(): boolean {
+    return this.undoManager.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.undoManager.canRedo();
+  }
+
+  /**
+   * Record all local changes made by `fn` as a single undo step
+   */
+  groupUndo(fn: () => void): void {
+    this.undoManager.runInGroup(fn);
+  }
+
+  /**
+   * Write batched local changes without waiting for their batching windows to end
+   */
+  async flush(): Promise<void> {
+    await this.batcher.flush();
+  }
+
+  /**
+   * Run `fn` and write all changes it makes to synced state as one unit, which
+   * other clients apply all at once
+   *
+   * @returns Resolves once the changes are written
+   */
+  transaction(fn: () => void): Promise<void> {
+    // Nested transactions become part of the outer one
+    if (this.openTransaction !== null) {
+      fn();
+      return Promise.resolve();
+    }
+
+    const changes = new OfflineQueue();
+    this.openTransaction = changes;
+    try {
+      fn();
+    } catch (error) {
+      // Changes made before the error are in the local state already
+      this.openTransaction = null;
+      this.commitTransaction(changes.getAll()).catch((commitError: unknown) => {
+        this.logger.error('Failed to sync changes to remote storage', commitError as Error);
+      });
+      throw error;
+    }
+    this.openTransaction = null;
+    return this.commitTransaction(changes.getAll());
+  }
+
+  /**
+   * Subscribe to a sync lifecycle event
+   *
+   * @returns Function that removes the handler
+   */
+  on<K extends keyof MultiplayerEvents>(
+    event: K,
+    handler: EventHandler<MultiplayerEvents[K]>,
+  ): () => void {
+    return this.events.on(event, handler);
+  }
+
+  async setPresence(data: unknown): Promise<void> {
+    await this.presence.set(data);
+  }
+
+  async clearPresence(): Promise<void> {
+    await this.presence.clear();
+  }
+
+  getPresence(): PresenceEntry[] {
+    return this.presence.getAll();
+  }
+
+  onPresenceChange(listener: (entries: PresenceEntry[]) => void): () => void {
+    return this.presence.onChange(listener);
+  }
+
   private cleanup(): void {
     this.cleanupFunctions.forEach(cleanup => cleanup());
     this.cleanupFunctions.length = 0;
+    this.events.clear();
     this.performanceMonitor.cleanup?.();
   }
 }
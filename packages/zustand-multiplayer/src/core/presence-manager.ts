@@ -0,0 +1,302 @@
+import type { Logger } from '../monitoring/logger';
+import type { StorageAdapter, StorageChangeEvent, StoredValue } from '../storage/storage-adapter';
+import type { StorageKeyManager } from '../storage/storage-key-manager';
+import { applyMergePatch, isPlainObject } from '../utils';
+import { DEFAULT_PRESENCE_HEARTBEAT_INTERVAL, DEFAULT_PRESENCE_TIMEOUT } from '../utils/constants';
+import { decodeKeySegment, encodeKeySegment } from '../utils/key-encoder';
+import { StateDiffManager } from './state-diff-manager';
+
+/**
+ * Storage key segment under which presence entries are stored. `$` is always
+ * encoded in state paths, so it cannot collide with a sync field.
+ */
+export const PRESENCE_KEY_SEGMENT = '$presence';
+
+export interface PresenceOptions {
+  /** How often the own entry is refreshed, in milliseconds (default: 10000) */
+  heartbeatInterval?: number;
+  /** Time after which an entry without heartbeat is removed, in milliseconds (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Presence of a connected client
+ */
+export interface PresenceEntry<TPresence = unknown> {
+  clientId: string;
+  data: TPresence;
+  /** Time the entry was last refreshed */
+  lastSeen: number;
+  /** Whether the entry belongs to this client */
+  isSelf: boolean;
+}
+
+export type PresenceListener = (entries: PresenceEntry[]) => void;
+
+/**
+ * Stored form of a presence entry
+ */
+interface PresenceRecord {
+  data: unknown;
+  updatedAt: number;
+}
+
+/**
+ * Ephemeral per-client data such as cursors or online status. Entries are kept
+ * apart from the synced state: they are never hydrated into the store, are
+ * refreshed by heartbeats and disappear after a timeout or when their client
+ * disconnects.
+ */
+export class PresenceManager {
+  private readonly entries = new Map<string, { record: PresenceRecord; lastSeen: number }>();
+  private readonly listeners = new Set<PresenceListener>();
+  private readonly diffManager = new StateDiffManager();
+  private readonly heartbeatInterval: number;
+  private readonly timeout: number;
+  private ownData: unknown = undefined;
+  private hasOwnEntry = false;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly client: StorageAdapter,
+    private readonly keyManager: StorageKeyManager,
+    private readonly logger: Logger,
+    options: PresenceOptions = {},
+  ) {
+    this.heartbeatInterval = options.heartbeatInterval ?? DEFAULT_PRESENCE_HEARTBEAT_INTERVAL;
+    this.timeout = options.timeout ?? DEFAULT_PRESENCE_TIMEOUT;
+  }
+
+  /**
+   * Sets the presence data of this client
+   */
+  async set(data: unknown): Promise<void> {
+    const previous = this.ownData;
+    this.ownData = data;
+    this.notify();
+
+    if (this.heartbeatTimer !== null) {
+      const patch =
+        this.hasOwnEntry && previous !== undefined
+          ? this.diffManager.calculateDiff(previous, data).data
+          : data;
+      await this.write({ data: patch, updatedAt: Date.now() });
+    }
+  }
+
+  /**
+   * Removes the presence entry of this client
+   */
+  async clear(): Promise<void> {
+    if (this.ownData === undefined) {
+      return;
+    }
+    this.ownData = undefined;
+    this.notify();
+    await this.removeOwnEntry();
+  }
+
+  getAll(): PresenceEntry[] {
+    const entries: PresenceEntry[] = [];
+
+    if (this.ownData !== undefined) {
+      entries.push({
+        clientId: this.client.getClientId(),
+        data: this.ownData,
+        lastSeen: Date.now(),
+        isSelf: true,
+      });
+    }
+    for (const [clientId, { record, lastSeen }] of this.entries) {
+      entries.push({ clientId, data: record.data, lastSeen, isSelf: false });
+    }
+
+    return entries;
+  }
+
+  onChange(listener: PresenceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Starts heartbeats once connected and announces the own entry
+   */
+  start(): void {
+    if (this.heartbeatTimer !== null) {
+      return;
+    }
+
+    this.heartbeatTimer = setInterval(() => {
+      this.removeExpiredEntries();
+      void this.heartbeat();
+    }, this.heartbeatInterval);
+    void this.heartbeat();
+  }
+
+  /**
+   * Stops heartbeats and forgets other clients, whose entries can no longer be
+   * followed. With `removeOwnEntry` the own entry is deleted from storage first.
+   */
+  async stop(removeOwnEntry: boolean): Promise<void> {
+    if (this.heartbeatTimer !== null) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    if (removeOwnEntry) {
+      await this.removeOwnEntry();
+    }
+
+    if (this.entries.size > 0) {
+      this.entries.clear();
+      this.notify();
+    }
+  }
+
+  /**
+   * Loads the entries of other clients from stored items
+   */
+  load(items: Array<[string, StoredValue]>): void {
+    const now = Date.now();
+    this.entries.clear();
+
+    for (const [key, storedValue] of items) {
+      const clientId = this.parseKey(key);
+      const lastSeen = Math.min(storedValue.timestamp ?? now, now);
+      if (
+        clientId === null ||
+        clientId === this.client.getClientId() ||
+        !this.isRecord(storedValue.value)
+      ) {
+        continue;
+      }
+      if (now - lastSeen > this.timeout) {
+        // Left while no other client was online to remove the entry
+        this.removeEntry(clientId);
+        continue;
+      }
+      this.entries.set(clientId, { record: storedValue.value, lastSeen });
+    }
+
+    this.notify();
+  }
+
+  /**
+   * Applies a change of another client's entry
+   *
+   * @returns Whether the key is a presence key
+   */
+  handleRemoteChange(event: StorageChangeEvent): boolean {
+    const clientId = this.parseKey(event.key);
+    if (clientId === null) {
+      return false;
+    }
+    if (clientId === this.client.getClientId()) {
+      // Another client considered this one gone; the next heartbeat writes it again
+      if (event.value === null) {
+        this.hasOwnEntry = false;
+      }
+      return true;
+    }
+
+    if (event.value === null) {
+      if (this.entries.delete(clientId)) {
+        this.notify();
+      }
+      return true;
+    }
+
+    const record = applyMergePatch(this.entries.get(clientId)?.record, event.value);
+    if (this.isRecord(record)) {
+      this.entries.set(clientId, { record, lastSeen: Date.now() });
+      this.notify();
+    }
+    return true;
+  }
+
+  isPresenceKey(key: string): boolean {
+    return this.parseKey(key) !== null;
+  }
+
+  private async heartbeat(): Promise<void> {
+    if (this.ownData === undefined) {
+      return;
+    }
+    await this.write({ data: this.ownData, updatedAt: Date.now() });
+  }
+
+  private async write(value: Partial<PresenceRecord>): Promise<void> {
+    try {
+      await this.client.setItem(this.getOwnKey(), value);
+      this.hasOwnEntry = true;
+    } catch (error) {
+      this.logger.warn(`Failed to write presence entry: ${(error as Error).message}`);
+    }
+  }
+
+  private async removeOwnEntry(): Promise<void> {
+    if (!this.hasOwnEntry) {
+      return;
+    }
+    this.hasOwnEntry = false;
+    try {
+      await this.client.removeItem(this.getOwnKey());
+    } catch (error) {
+      this.logger.warn(`Failed to remove presence entry: ${(error as Error).message}`);
+    }
+  }
+
+  private removeExpiredEntries(): void {
+    const now = Date.now();
+    let changed = false;
+
+    for (const [clientId, { lastSeen }] of this.entries) {
+      if (now - lastSeen > this.timeout) {
+        this.entries.delete(clientId);
+        changed = true;
+        this.removeEntry(clientId);
+      }
+    }
+
+    if (changed) {
+      this.notify();
+    }
+  }
+
+  /**
+   * Removes the stored entry of another client, which is gone and cannot remove it itself
+   */
+  private removeEntry(clientId: string): void {
+    this.client.removeItem(this.getKey(clientId)).catch((error: unknown) => {
+      this.logger.debug(`Failed to remove expired presence entry: ${String(error)}`);
+    });
+  }
+
+  private notify(): void {
+    const entries = this.getAll();
+    this.listeners.forEach(listener => listener(entries));
+  }
+
+  private isRecord(value: unknown): value is PresenceRecord {
+    return isPlainObject(value) && 'data' in value;
+  }
+
+  private getOwnKey(): string {
+    return this.getKey(this.client.getClientId());
+  }
+
+  private getKey(clientId: string): string {
+    return this.keyManager.createStorageKey([PRESENCE_KEY_SEGMENT, encodeKeySegment(clientId)]);
+  }
+
+  private parseKey(key: string): string | null {
+    const { segments } = this.keyManager.parseStorageKey(key);
+    if (segments.length !== 2 || segments[0] !== PRESENCE_KEY_SEGMENT) {
+      return null;
+    }
+    return decodeKeySegment(segments[1]);
+  }
+}
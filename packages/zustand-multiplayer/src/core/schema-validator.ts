@@ -0,0 +1,103 @@
+/**
+ * Validates the value of a sync field
+ */
+export interface FieldValidator {
+  /** Returns the issues found in the value; empty if it is valid */
+  validate(value: unknown): string[];
+}
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+export type StandardSchemaResult =
+  | { readonly value: unknown; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaIssue[] };
+
+/**
+ * The parts of the Standard Schema interface (https://standardschema.dev) used
+ * here. Implemented by zod (3.24+), valibot, arktype and others.
+ */
+export interface StandardSchemaV1 {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult | Promise<StandardSchemaResult>;
+  };
+}
+
+export type FieldSchema = FieldValidator | StandardSchemaV1;
+
+/**
+ * What happens to remote data that fails validation:
+ * - `reject`: the change is ignored and the local value is kept
+ * - `repair`: the field is reset to its initial value
+ * - `report`: the change is applied anyway
+ *
+ * Invalid data is reported through the `validationError` event in every case.
+ */
+export type SchemaPolicy = 'reject' | 'repair' | 'report';
+
+function formatIssue(issue: StandardSchemaIssue): string {
+  if (issue.path === undefined || issue.path.length === 0) {
+    return issue.message;
+  }
+  const path = issue.path
+    .map(segment => String(typeof segment === 'object' ? segment.key : segment))
+    .join('.');
+  return `${path}: ${issue.message}`;
+}
+
+function isStandardSchema(schema: FieldSchema): schema is StandardSchemaV1 {
+  return '~standard' in schema;
+}
+
+/**
+ * Adapts a Standard Schema (e.g. a zod schema) to a field validator. Only
+ * synchronous schemas are supported.
+ */
+export function fromStandardSchema(schema: StandardSchemaV1): FieldValidator {
+  return {
+    validate(value) {
+      const result = schema['~standard'].validate(value);
+      if (result instanceof Promise) {
+        throw new Error('Asynchronous schemas are not supported');
+      }
+      return result.issues?.map(formatIssue) ?? [];
+    },
+  };
+}
+
+/**
+ * Validators of the sync fields that have a schema
+ */
+export class SchemaValidator {
+  private readonly validators = new Map<string, FieldValidator>();
+
+  constructor(schema: Partial<Record<string, FieldSchema>> = {}) {
+    for (const [field, fieldSchema] of Object.entries(schema)) {
+      if (fieldSchema !== undefined) {
+        this.validators.set(
+          field,
+          isStandardSchema(fieldSchema) ? fromStandardSchema(fieldSchema) : fieldSchema,
+        );
+      }
+    }
+  }
+
+  /**
+   * Returns the issues of a field value; empty if it is valid or the field has no schema
+   */
+  validate(field: string, value: unknown): string[] {
+    const validator = this.validators.get(field);
+    if (validator === undefined) {
+      return [];
+    }
+    try {
+      return validator.validate(value);
+    } catch (error) {
+      return [(error as Error).message];
+    }
+  }
+}
@@ -80,6 +80,10 @@ export class StateDiffManager {
     }
 
     if (typeof value1 === 'object' && typeof value2 === 'object') {
+      if (this.isInstance(value1) || this.isInstance(value2)) {
+        return this.isInstanceEqual(value1, value2, visited);
+      }
+
       // Initialize visited set if not provided
       const visitedSet = visited ?? new WeakSet<object>();
 
@@ -109,4 +113,50 @@ export class StateDiffManager {
 
     return false;
   }
+
+  private isInstance(value: object): boolean {
+    return !isPlainObject(value) && !Array.isArray(value);
+  }
+
+  /**
+   * Compare instances such as Dates, Maps, Sets and typed arrays by their contents
+   */
+  private isInstanceEqual(value1: object, value2: object, visited?: WeakSet<object>): boolean {
+    if (Object.getPrototypeOf(value1) !== Object.getPrototypeOf(value2)) {
+      return false;
+    }
+    if (value1 instanceof Date) {
+      return value1.getTime() === (value2 as Date).getTime();
+    }
+    if (value1 instanceof Map || value1 instanceof Set) {
+      return this.isDeepEqual(
+        Array.from(value1 as Iterable<unknown>),
+        Array.from(value2 as Iterable<unknown>),
+        visited,
+      );
+    }
+    if (ArrayBuffer.isView(value1) && ArrayBuffer.isView(value2)) {
+      const bytes1 = new Uint8Array(value1.buffer, value1.byteOffset, value1.byteLength);
+      const bytes2 = new Uint8Array(value2.buffer, value2.byteOffset, value2.byteLength);
+      return (
+        bytes1.length === bytes2.length && bytes1.every((byte, index) => byte === bytes2[index])
+      );
+    }
+
+    // Other instances are compared by their own properties, as JSON would store them
+    const keys1 = Object.keys(value1);
+    const keys2 = Object.keys(value2);
+    return (
+      keys1.length === keys2.length &&
+      keys1.every(
+        key =>
+          key in value2 &&
+          this.isDeepEqual(
+            (value1 as Record<string, unknown>)[key],
+            (value2 as Record<string, unknown>)[key],
+            visited,
+          ),
+      )
+    );
+  }
 }
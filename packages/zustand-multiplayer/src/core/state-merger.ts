@@ -135,10 +135,24 @@ export class StateMerger<TState> {
   }
 
   private cloneValue(value: unknown): Record<string, unknown> {
+    return isPlainObject(value) ? (this.deepClone(value) as Record<string, unknown>) : {};
+  }
+
+  /**
+   * Copy plain objects and arrays; other values such as Dates or Maps are shared
+   */
+  private deepClone(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.deepClone(item));
+    }
     if (isPlainObject(value)) {
-      return JSON.parse(JSON.stringify(value)) as Record<string, unknown>;
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        copy[key] = this.deepClone(item);
+      }
+      return copy;
     }
-    return {};
+    return value;
   }
 
   private applyNestedUpdate(
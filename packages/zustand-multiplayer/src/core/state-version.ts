@@ -0,0 +1,19 @@
+import { isPlainObject } from '../utils';
+
+/**
+ * Storage key segment of the state version record of a namespace.
+ * `$` is always encoded in state paths, so it cannot collide with a sync field.
+ */
+export const STATE_VERSION_KEY_SEGMENT = '$version';
+
+/**
+ * Stored form of the state version. Written by the first client that hydrates
+ * the namespace with a newer `version`, after it wrote the migrated state.
+ */
+export interface StateVersionRecord {
+  version: number;
+}
+
+export function isStateVersionRecord(value: unknown): value is StateVersionRecord {
+  return isPlainObject(value) && typeof value.version === 'number';
+}
@@ -0,0 +1,155 @@
+/**
+ * Whether the local changes to a state path have been written to remote storage
+ */
+export type SyncStatus = 'synced' | 'pending' | 'failed';
+
+interface KeySyncState {
+  /** Number of local changes made to the key */
+  requested: number;
+  /** Number of those changes known to be written */
+  acknowledged: number;
+  /** Set when the latest write failed; cleared by the next successful write */
+  error: Error | null;
+  waiters: Array<{ seq: number; resolve: () => void; reject: (error: Error) => void }>;
+}
+
+/**
+ * Tracks which local changes have been acknowledged by remote storage, per
+ * storage key. Changes to a key are numbered; since queued and batched changes
+ * are coalesced per key, a write acknowledges every change to its key made
+ * before it started.
+ */
+export class SyncTracker {
+  private readonly keys = new Map<string, KeySyncState>();
+  private pendingCount = 0;
+
+  /**
+   * @param onPendingCountChange Called with the number of keys with unwritten changes
+   */
+  constructor(private readonly onPendingCountChange: (count: number) => void) {}
+
+  /**
+   * Registers a local change to a key
+   *
+   * @returns Sequence number of the change
+   */
+  request(key: string): number {
+    const state = this.getOrCreate(key);
+    state.requested++;
+    this.updatePendingCount();
+    return state.requested;
+  }
+
+  /**
+   * Promise that resolves once the change with the given sequence number is
+   * written, or rejects if writing it fails
+   */
+  waitFor(key: string, seq: number): Promise<void> {
+    const state = this.keys.get(key);
+    if (state === undefined || state.acknowledged >= seq) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      state.waiters.push({ seq, resolve, reject });
+    });
+  }
+
+  /**
+   * Marks the start of a write to a key
+   *
+   * @returns Sequence number of the latest change the write includes
+   */
+  startWrite(key: string): number {
+    return this.keys.get(key)?.requested ?? 0;
+  }
+
+  /**
+   * Marks a write as acknowledged by remote storage
+   */
+  complete(key: string, seq: number): void {
+    const state = this.keys.get(key);
+    if (state === undefined || seq <= state.acknowledged) {
+      return;
+    }
+
+    state.acknowledged = seq;
+    state.error = null;
+    state.waiters = state.waiters.filter(waiter => {
+      if (waiter.seq > seq) {
+        return true;
+      }
+      waiter.resolve();
+      return false;
+    });
+    if (state.acknowledged >= state.requested) {
+      this.keys.delete(key);
+    }
+    this.updatePendingCount();
+  }
+
+  /**
+   * Marks the changes to a key up to `seq` as failed. They will not be retried,
+   * so they count as settled.
+   *
+   * @returns Whether any unsettled change was marked
+   */
+  fail(key: string, error: Error, seq = this.startWrite(key)): boolean {
+    const state = this.keys.get(key);
+    if (state === undefined || seq <= state.acknowledged) {
+      return false;
+    }
+
+    state.acknowledged = seq;
+    state.error = error;
+    state.waiters = state.waiters.filter(waiter => {
+      if (waiter.seq > seq) {
+        return true;
+      }
+      waiter.reject(error);
+      return false;
+    });
+    this.updatePendingCount();
+    return true;
+  }
+
+  /**
+   * Combined status of the keys that match: failed if a write failed, pending if
+   * a change is not written yet
+   */
+  getStatus(matches: (key: string) => boolean): SyncStatus {
+    let status: SyncStatus = 'synced';
+    for (const [key, state] of this.keys) {
+      if (!matches(key)) {
+        continue;
+      }
+      if (state.acknowledged < state.requested) {
+        status = 'pending';
+      } else if (state.error !== null) {
+        return 'failed';
+      }
+    }
+    return status;
+  }
+
+  private getOrCreate(key: string): KeySyncState {
+    let state = this.keys.get(key);
+    if (state === undefined) {
+      state = { requested: 0, acknowledged: 0, error: null, waiters: [] };
+      this.keys.set(key, state);
+    }
+    return state;
+  }
+
+  private updatePendingCount(): void {
+    let count = 0;
+    for (const state of this.keys.values()) {
+      if (state.acknowledged < state.requested) {
+        count++;
+      }
+    }
+    if (count !== this.pendingCount) {
+      this.pendingCount = count;
+      this.onPendingCountChange(count);
+    }
+  }
+}
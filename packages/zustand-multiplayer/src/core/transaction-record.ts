@@ -0,0 +1,43 @@
+import { isPlainObject } from '../utils';
+
+/**
+ * Storage key segment under which each client stores its latest transaction.
+ * `$` is always encoded in state paths, so it cannot collide with a sync field.
+ */
+export const TRANSACTION_KEY_SEGMENT = '$transaction';
+
+/**
+ * A write that is part of a transaction
+ */
+export interface TransactionWrite {
+  /** State path of the write (dot separated, encoded segments) */
+  path: string;
+  operation: 'set' | 'remove';
+  value?: unknown;
+  /** Version timestamp the write is also stored with under its own key */
+  timestamp: number;
+}
+
+/**
+ * Stored form of a transaction. The writes are stored under their own keys
+ * afterwards, so receivers can apply them together while late joiners hydrate
+ * the keys as usual.
+ */
+export interface TransactionRecord {
+  writes: TransactionWrite[];
+}
+
+function isTransactionWrite(value: unknown): value is TransactionWrite {
+  return (
+    isPlainObject(value) &&
+    typeof value.path === 'string' &&
+    (value.operation === 'set' || value.operation === 'remove') &&
+    typeof value.timestamp === 'number'
+  );
+}
+
+export function isTransactionRecord(value: unknown): value is TransactionRecord {
+  return (
+    isPlainObject(value) && Array.isArray(value.writes) && value.writes.every(isTransactionWrite)
+  );
+}
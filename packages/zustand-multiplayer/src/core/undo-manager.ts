@@ -0,0 +1,118 @@
+/**
+ * Change of a single state path made by this client. `undefined` means the
+ * path did not exist.
+ */
+export interface UndoChange {
+  /** Dot separated state path (encoded segments) */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface UndoOptions<TState> {
+  /** Sync fields whose local changes can be undone (default: all sync fields) */
+  fields?: Array<Extract<keyof TState, string> | (string & {})>;
+  /** Maximum number of undo steps kept (default: 100) */
+  maxDepth?: number;
+}
+
+/**
+ * Undo and redo stacks of the local changes of one client. Each step holds
+ * the changes of one state update, or of all updates made inside `group()`.
+ */
+export class UndoManager {
+  private readonly undoStack: UndoChange[][] = [];
+  private readonly redoStack: UndoChange[][] = [];
+  private group: UndoChange[] | null = null;
+  private groupDepth = 0;
+
+  constructor(private readonly maxDepth: number) {}
+
+  /**
+   * Records the changes of a local state update as a new undo step
+   */
+  record(changes: UndoChange[]): void {
+    if (changes.length === 0) {
+      return;
+    }
+
+    if (this.group !== null) {
+      this.mergeInto(this.group, changes);
+      return;
+    }
+
+    this.push(this.undoStack, changes);
+    this.redoStack.length = 0;
+  }
+
+  /**
+   * Runs `fn` and records all changes it makes as a single undo step
+   */
+  runInGroup(fn: () => void): void {
+    if (this.groupDepth === 0) {
+      this.group = [];
+    }
+    this.groupDepth++;
+
+    try {
+      fn();
+    } finally {
+      this.groupDepth--;
+      if (this.groupDepth === 0) {
+        const group = this.group ?? [];
+        this.group = null;
+        this.record(group);
+      }
+    }
+  }
+
+  popUndo(): UndoChange[] | undefined {
+    return this.undoStack.pop();
+  }
+
+  popRedo(): UndoChange[] | undefined {
+    return this.redoStack.pop();
+  }
+
+  pushUndo(changes: UndoChange[]): void {
+    this.push(this.undoStack, changes);
+  }
+
+  pushRedo(changes: UndoChange[]): void {
+    this.push(this.redoStack, changes);
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  clear(): void {
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+  }
+
+  private push(stack: UndoChange[][], changes: UndoChange[]): void {
+    stack.push(changes);
+    if (stack.length > this.maxDepth) {
+      stack.shift();
+    }
+  }
+
+  /**
+   * Adds changes to a step, keeping the earliest `before` of each path
+   */
+  private mergeInto(step: UndoChange[], changes: UndoChange[]): void {
+    for (const change of changes) {
+      const existing = step.find(candidate => candidate.path === change.path);
+      if (existing !== undefined) {
+        existing.after = change.after;
+      } else {
+        step.push({ ...change });
+      }
+    }
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Version of the value currently held for a storage key
+ */
+export interface KeyMetadata {
+  /** Fully namespaced storage key */
+  key: string;
+  /** Time the winning write was made */
+  timestamp: number;
+  /** Client that made the winning write (empty if unknown, e.g. for remote deletions) */
+  clientId: string;
+  /** Whether the winning write was a deletion */
+  deleted: boolean;
+}
+
+/**
+ * Orders two versions by timestamp, using the client id as a tiebreak so
+ * every client picks the same winner for concurrent writes
+ */
+export function compareVersions(
+  a: Pick<KeyMetadata, 'timestamp' | 'clientId'>,
+  b: Pick<KeyMetadata, 'timestamp' | 'clientId'>,
+): number {
+  if (a.timestamp !== b.timestamp) {
+    return a.timestamp - b.timestamp;
+  }
+  if (a.clientId === b.clientId) {
+    return 0;
+  }
+  return a.clientId < b.clientId ? -1 : 1;
+}
+
+/**
+ * Last-writer-wins register per storage key. Tracks the version of the value
+ * each key currently holds so stale writes arriving out of order can be ignored.
+ */
+export class VersionTracker {
+  private readonly versions = new Map<string, KeyMetadata>();
+
+  get(key: string): KeyMetadata | undefined {
+    return this.versions.get(key);
+  }
+
+  /**
+   * Records a version if it is newer than the one currently held for its key
+   *
+   * @returns Whether the version was accepted
+   */
+  update(version: KeyMetadata): boolean {
+    const current = this.versions.get(version.key);
+    if (current !== undefined && compareVersions(version, current) <= 0) {
+      return false;
+    }
+    this.versions.set(version.key, { ...version });
+    return true;
+  }
+
+  clear(): void {
+    this.versions.clear();
+  }
+}
@@ -0,0 +1,83 @@
+import { DEFAULT_BATCH_INTERVAL } from '../utils/constants';
+import type { PendingChange } from './offline-queue';
+import { OfflineQueue } from './offline-queue';
+
+export interface BatchingOptions<TState> {
+  /** Time local writes are held and coalesced per storage key, in milliseconds (default: 100) */
+  interval?: number;
+  /** Batching window per sync field in milliseconds; 0 writes the field immediately */
+  fields?: Partial<Record<Extract<keyof TState, string> | (string & {}), number>>;
+}
+
+/**
+ * Holds local writes for a batching window and coalesces writes to the same
+ * storage key, so rapid updates (e.g. while dragging) become one write per key
+ * and window. Fields with the same window share a batch.
+ */
+export class WriteBatcher {
+  private readonly batches = new Map<
+    number,
+    { changes: OfflineQueue; timer: ReturnType<typeof setTimeout> }
+  >();
+
+  constructor(
+    private readonly options: BatchingOptions<unknown> | undefined,
+    private readonly write: (changes: PendingChange[]) => Promise<void>,
+  ) {}
+
+  /**
+   * Batching window of a sync field, 0 if its writes are not batched
+   */
+  getWindow(field: string): number {
+    if (this.options === undefined) {
+      return 0;
+    }
+    return this.options.fields?.[field] ?? this.options.interval ?? DEFAULT_BATCH_INTERVAL;
+  }
+
+  add(change: PendingChange, window: number): void {
+    let batch = this.batches.get(window);
+    if (batch === undefined) {
+      batch = {
+        changes: new OfflineQueue(),
+        timer: setTimeout(() => void this.flushBatch(window), window),
+      };
+      this.batches.set(window, batch);
+    }
+    batch.changes.merge(change);
+  }
+
+  /**
+   * Removes the batched change of a key, so it can be written together with a newer one
+   */
+  take(key: string): PendingChange | undefined {
+    for (const { changes } of this.batches.values()) {
+      const change = changes.take(key);
+      if (change !== undefined) {
+        return change;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Writes all batched changes without waiting for their windows to end
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.batches.keys(), window => this.flushBatch(window)));
+  }
+
+  private async flushBatch(window: number): Promise<void> {
+    const batch = this.batches.get(window);
+    if (batch === undefined) {
+      return;
+    }
+    clearTimeout(batch.timer);
+    this.batches.delete(window);
+
+    const changes = batch.changes.getAll();
+    if (changes.length > 0) {
+      await this.write(changes);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import type { TokenPermissions } from '../auth/token-helper';
+
+/**
+ * Why the permissions of a token do not allow writing a state path
+ *
+ * @param path Path segments (unencoded) of the write
+ * @returns The reason, or null if the path may be written
+ */
+export function getWriteDenial(
+  permissions: TokenPermissions | undefined,
+  path: string[],
+): string | null {
+  if (permissions === undefined) {
+    return null;
+  }
+  if (permissions.readOnly === true) {
+    return `Cannot write '${path.join('.')}': the access token is read-only`;
+  }
+
+  const { writablePaths } = permissions;
+  if (
+    writablePaths === undefined ||
+    writablePaths.some(writablePath =>
+      writablePath.split('.').every((segment, index) => path[index] === segment),
+    )
+  ) {
+    return null;
+  }
+  return `Cannot write '${path.join('.')}': the access token does not permit writing this path`;
+}
@@ -0,0 +1,51 @@
+import type { CrdtField, CrdtFieldContext, CrdtFieldWrite } from './crdt-field';
+import { PNCounter } from './pn-counter';
+
+/**
+ * Counter field backed by a PN-counter with one entry per client
+ */
+export class CounterField implements CrdtField {
+  private readonly counter = new PNCounter();
+
+  constructor(private readonly context: CrdtFieldContext) {}
+
+  getValue(): number {
+    return this.counter.value;
+  }
+
+  applyLocalChange(previousValue: unknown, currentValue: unknown): CrdtFieldWrite[] {
+    if (typeof currentValue !== 'number' || typeof previousValue !== 'number') {
+      this.context.logger.warn(`Counter field '${this.context.field}' must hold a number`);
+      return [];
+    }
+
+    const delta = currentValue - previousValue;
+    if (delta === 0 || !Number.isFinite(delta)) {
+      return [];
+    }
+
+    const entry = this.counter.add(this.context.clientId, delta);
+    return [{ entryId: this.context.clientId, operation: 'set', value: entry }];
+  }
+
+  applyRemoteChange(entryId: string, value: unknown): void {
+    if (value === null) {
+      this.counter.remove(entryId);
+    } else {
+      this.counter.merge(entryId, value);
+    }
+  }
+
+  /**
+   * Counter entries only grow, so stored entries are merged with the local ones
+   */
+  load(entries: Array<[string, unknown]>): void {
+    for (const [entryId, value] of entries) {
+      this.counter.merge(entryId, value);
+    }
+  }
+
+  getEntries(): Array<[string, unknown]> {
+    return this.counter.getEntries();
+  }
+}
@@ -0,0 +1,61 @@
+import type { Logger } from '../monitoring/logger';
+import { CounterField } from './counter-field';
+import type { FieldType } from './field-types';
+import { ListField } from './list-field';
+import { TextField } from './text-field';
+
+/**
+ * A write produced by a local change of a CRDT field. Each entry of a field is
+ * stored under its own storage key, `<field>:<entryId>`.
+ */
+export interface CrdtFieldWrite {
+  entryId: string;
+  operation: 'set' | 'remove';
+  /** Merge patch against the stored entry */
+  value?: unknown;
+}
+
+/**
+ * Replica of a sync field that is stored as a set of independently mergeable
+ * entries instead of a single value
+ */
+export interface CrdtField {
+  /** Current value of the field as seen by the application */
+  getValue(): unknown;
+  /**
+   * Records a local change of the field value
+   *
+   * @returns The writes needed to sync the change
+   */
+  applyLocalChange(previousValue: unknown, currentValue: unknown): CrdtFieldWrite[];
+  /** Applies a remote write to an entry; a null value removes the entry */
+  applyRemoteChange(entryId: string, value: unknown): void;
+  /**
+   * Replaces the replica with stored entries
+   *
+   * @param pendingEntryIds Entries with local changes that have not been written yet
+   */
+  load(entries: Array<[string, unknown]>, pendingEntryIds: Set<string>): void;
+  /** Stored form of all entries */
+  getEntries(): Array<[string, unknown]>;
+}
+
+export interface CrdtFieldContext {
+  field: string;
+  clientId: string;
+  logger: Logger;
+}
+
+/**
+ * Creates the replica for a sync field of the given type
+ */
+export function createCrdtField(fieldType: FieldType, context: CrdtFieldContext): CrdtField {
+  switch (fieldType.kind) {
+    case 'counter':
+      return new CounterField(context);
+    case 'list':
+      return new ListField(fieldType, context);
+    case 'text':
+      return new TextField(context);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Synced as a PN-counter: every client keeps its own increments and decrements
+ * under a separate storage key, and the field holds their sum
+ */
+export interface CounterFieldType {
+  kind: 'counter';
+}
+
+/**
+ * Synced as a list of items identified by `idKey`: every item is stored under
+ * its own storage key together with its position
+ */
+export interface ListFieldType {
+  kind: 'list';
+  idKey: string;
+}
+
+export interface ListFieldOptions {
+  /** Property holding the unique id of each item (default: 'id') */
+  idKey?: string;
+}
+
+/**
+ * Synced as collaborative text: concurrent character-level edits merge
+ */
+export interface TextFieldType {
+  kind: 'text';
+}
+
+/**
+ * Describes how a sync field is stored and merged when it should not use
+ * the default last-writer-wins semantics
+ */
+export type FieldType = CounterFieldType | ListFieldType | TextFieldType;
+
+/**
+ * Declares a numeric sync field as a counter. Concurrent increments and
+ * decrements from different clients converge to the correct total.
+ *
+ * @example
+ * multiplayer(initializer, { namespace: 'votes', fieldTypes: { votes: counter() } })
+ */
+export function counter(): CounterFieldType {
+  return { kind: 'counter' };
+}
+
+/**
+ * Declares an array sync field as a list of objects with unique ids. Inserts,
+ * removals, moves and item updates are synced per item, so concurrent edits
+ * (e.g. two clients appending messages) merge instead of overwriting the array.
+ *
+ * @example
+ * multiplayer(initializer, { namespace: 'chat', fieldTypes: { messages: list() } })
+ */
+export function list(options: ListFieldOptions = {}): ListFieldType {
+  return { kind: 'list', idKey: options.idKey ?? 'id' };
+}
+
+/**
+ * Declares a string sync field as collaborative text. Concurrent inserts and
+ * deletions from different clients merge character by character instead of
+ * one client's string overwriting the other's.
+ *
+ * @example
+ * multiplayer(initializer, { namespace: 'notes', fieldTypes: { body: text() } })
+ */
+export function text(): TextFieldType {
+  return { kind: 'text' };
+}
@@ -0,0 +1,163 @@
+/**
+ * Fractional indexing: string keys that sort lexicographically and for which a
+ * new key can always be generated between any two existing ones. Keys consist of
+ * a variable-length integer part (whose length is encoded by the first character)
+ * followed by a fraction, so appending or prepending keeps keys short.
+ */
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const INTEGER_ZERO = 'a0';
+const SMALLEST_INTEGER = `A${'0'.repeat(26)}`;
+
+function getIntegerLength(head: string): number {
+  if (head >= 'a' && head <= 'z') {
+    return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2;
+  }
+  if (head >= 'A' && head <= 'Z') {
+    return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+  }
+  throw new Error(`Invalid order key: ${head}`);
+}
+
+function getIntegerPart(key: string): string {
+  const integerLength = getIntegerLength(key.charAt(0));
+  if (integerLength > key.length) {
+    throw new Error(`Invalid order key: ${key}`);
+  }
+  return key.slice(0, integerLength);
+}
+
+/**
+ * Returns a fraction between a and b (exclusive). `b` null means no upper bound.
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Skip the common prefix
+    let n = 0;
+    while ((n < a.length ? a.charAt(n) : '0') === b.charAt(n)) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a !== '' ? DIGITS.indexOf(a.charAt(0)) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b.charAt(0)) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS.charAt(Math.round((digitA + digitB) / 2));
+  }
+
+  // Adjacent digits: b's first digit alone is in between if b continues, otherwise go deeper
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS.charAt(digitA) + midpoint(a.slice(1), null);
+}
+
+function incrementInteger(integer: string): string | null {
+  const head = integer.charAt(0);
+  const digits = integer.slice(1).split('');
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const next = DIGITS.indexOf(digits[i]) + 1;
+    if (next < DIGITS.length) {
+      digits[i] = DIGITS.charAt(next);
+      return head + digits.join('');
+    }
+    digits[i] = '0';
+  }
+
+  if (head === 'Z') {
+    return INTEGER_ZERO;
+  }
+  if (head === 'z') {
+    return null;
+  }
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > 'a') {
+    digits.push('0');
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join('');
+}
+
+function decrementInteger(integer: string): string | null {
+  const head = integer.charAt(0);
+  const digits = integer.slice(1).split('');
+  const maxDigit = DIGITS.charAt(DIGITS.length - 1);
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const previous = DIGITS.indexOf(digits[i]) - 1;
+    if (previous >= 0) {
+      digits[i] = DIGITS.charAt(previous);
+      return head + digits.join('');
+    }
+    digits[i] = maxDigit;
+  }
+
+  if (head === 'a') {
+    return `Z${maxDigit}`;
+  }
+  if (head === 'A') {
+    return null;
+  }
+  const previousHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (previousHead < 'Z') {
+    digits.push(maxDigit);
+  } else {
+    digits.pop();
+  }
+  return previousHead + digits.join('');
+}
+
+/**
+ * Generates an order key that sorts between `a` and `b`
+ *
+ * @param a Lower bound, or null for the start of the list
+ * @param b Upper bound, or null for the end of the list
+ */
+export function generateKeyBetween(a: string | null, b: string | null): string {
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`Order key ${a} must sort before ${b}`);
+  }
+
+  if (a === null) {
+    if (b === null) {
+      return INTEGER_ZERO;
+    }
+    const integerB = getIntegerPart(b);
+    const fractionB = b.slice(integerB.length);
+    if (integerB === SMALLEST_INTEGER) {
+      return integerB + midpoint('', fractionB);
+    }
+    if (integerB < b) {
+      return integerB;
+    }
+    const decremented = decrementInteger(integerB);
+    if (decremented === null) {
+      throw new Error('Cannot generate an order key before the smallest key');
+    }
+    return decremented;
+  }
+
+  const integerA = getIntegerPart(a);
+  const fractionA = a.slice(integerA.length);
+
+  if (b === null) {
+    const incremented = incrementInteger(integerA);
+    return incremented ?? integerA + midpoint(fractionA, null);
+  }
+
+  const integerB = getIntegerPart(b);
+  const fractionB = b.slice(integerB.length);
+  if (integerA === integerB) {
+    return integerA + midpoint(fractionA, fractionB);
+  }
+  const incremented = incrementInteger(integerA);
+  if (incremented !== null && incremented < b) {
+    return incremented;
+  }
+  return integerA + midpoint(fractionA, null);
+}
@@ -0,0 +1,211 @@
+import { StateDiffManager } from '../core/state-diff-manager';
+import { applyMergePatch, isPlainObject } from '../utils';
+import type { CrdtField, CrdtFieldContext, CrdtFieldWrite } from './crdt-field';
+import type { ListFieldType } from './field-types';
+import { generateKeyBetween } from './fractional-index';
+
+/**
+ * Stored form of a list item
+ */
+export interface ListEntry {
+  item: unknown;
+  /** Fractional index that determines the position of the item */
+  order: string;
+}
+
+function isListEntry(value: unknown): value is ListEntry {
+  return isPlainObject(value) && typeof value.order === 'string' && 'item' in value;
+}
+
+function compareEntries(a: [string, ListEntry], b: [string, ListEntry]): number {
+  if (a[1].order !== b[1].order) {
+    return a[1].order < b[1].order ? -1 : 1;
+  }
+  // Concurrent inserts may pick the same order key
+  return a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0;
+}
+
+/**
+ * Array field stored as one entry per item, keyed by item id. Positions are
+ * fractional indexes, so inserts, removals, moves and item updates each touch
+ * only the affected items and concurrent edits merge.
+ */
+export class ListField implements CrdtField {
+  private entries = new Map<string, ListEntry>();
+  private readonly diffManager = new StateDiffManager();
+
+  constructor(
+    private readonly fieldType: ListFieldType,
+    private readonly context: CrdtFieldContext,
+  ) {}
+
+  getValue(): unknown[] {
+    return Array.from(this.entries)
+      .sort(compareEntries)
+      .map(([, entry]) => entry.item);
+  }
+
+  applyLocalChange(_previousValue: unknown, currentValue: unknown): CrdtFieldWrite[] {
+    if (!Array.isArray(currentValue)) {
+      this.context.logger.warn(`List field '${this.context.field}' must hold an array`);
+      return [];
+    }
+
+    const items = this.identifyItems(currentValue);
+    const orders = this.assignOrders(items.map(([id]) => this.entries.get(id)?.order));
+    const writes: CrdtFieldWrite[] = [];
+    const currentIds = new Set(items.map(([id]) => id));
+
+    for (const entryId of this.entries.keys()) {
+      if (!currentIds.has(entryId)) {
+        this.entries.delete(entryId);
+        writes.push({ entryId, operation: 'remove' });
+      }
+    }
+
+    items.forEach(([entryId, item], index) => {
+      const previous = this.entries.get(entryId);
+      const entry: ListEntry = { item, order: orders[index] };
+      this.entries.set(entryId, entry);
+
+      if (previous === undefined) {
+        writes.push({ entryId, operation: 'set', value: entry });
+      } else if (!this.diffManager.isDeepEqual(previous, entry)) {
+        const patch = this.diffManager.calculateDiff(previous, entry).data;
+        writes.push({ entryId, operation: 'set', value: patch });
+      }
+    });
+
+    return writes;
+  }
+
+  applyRemoteChange(entryId: string, value: unknown): void {
+    if (value === null) {
+      this.entries.delete(entryId);
+      return;
+    }
+
+    const entry = applyMergePatch(this.entries.get(entryId), value);
+    if (isListEntry(entry)) {
+      this.entries.set(entryId, entry);
+    }
+  }
+
+  load(entries: Array<[string, unknown]>, pendingEntryIds: Set<string>): void {
+    const loaded = new Map<string, ListEntry>();
+    for (const [entryId, value] of entries) {
+      if (isListEntry(value)) {
+        loaded.set(entryId, value);
+      }
+    }
+
+    // Keep local items that have not been written yet (or whose removal has not)
+    for (const entryId of pendingEntryIds) {
+      const local = this.entries.get(entryId);
+      if (local !== undefined) {
+        loaded.set(entryId, local);
+      } else {
+        loaded.delete(entryId);
+      }
+    }
+
+    this.entries = loaded;
+  }
+
+  getEntries(): Array<[string, unknown]> {
+    return Array.from(this.entries, ([entryId, entry]) => [entryId, { ...entry }]);
+  }
+
+  /**
+   * Pairs items with their ids, skipping items without a usable id and duplicates
+   */
+  private identifyItems(items: unknown[]): Array<[string, unknown]> {
+    const identified: Array<[string, unknown]> = [];
+    const seen = new Set<string>();
+
+    for (const item of items) {
+      const id = isPlainObject(item) ? item[this.fieldType.idKey] : undefined;
+      if ((typeof id !== 'string' && typeof id !== 'number') || seen.has(String(id))) {
+        this.context.logger.warn(
+          `Skipped item without a unique '${this.fieldType.idKey}' in list field '${this.context.field}'`,
+        );
+        continue;
+      }
+      seen.add(String(id));
+      identified.push([String(id), item]);
+    }
+
+    return identified;
+  }
+
+  /**
+   * Computes order keys for items in their new order. Items forming the longest
+   * run that is still correctly ordered keep their keys; new and moved items get
+   * keys between their neighbours.
+   */
+  private assignOrders(existingOrders: Array<string | undefined>): string[] {
+    const kept = this.findLongestIncreasingRun(existingOrders);
+    const orders: string[] = [];
+    let lower: string | null = null;
+
+    existingOrders.forEach((order, index) => {
+      if (order !== undefined && kept.has(index)) {
+        orders.push(order);
+        lower = order;
+        return;
+      }
+
+      let upper: string | null = null;
+      for (let next = index + 1; next < existingOrders.length; next++) {
+        const nextOrder = existingOrders[next];
+        if (nextOrder !== undefined && kept.has(next)) {
+          upper = nextOrder;
+          break;
+        }
+      }
+
+      const generated = generateKeyBetween(lower, upper);
+      orders.push(generated);
+      lower = generated;
+    });
+
+    return orders;
+  }
+
+  /**
+   * Indexes of the longest strictly increasing subsequence of the defined orders
+   */
+  private findLongestIncreasingRun(orders: Array<string | undefined>): Set<number> {
+    // tails[k] is the index ending the best run of length k + 1
+    const tails: number[] = [];
+    const previous: number[] = new Array<number>(orders.length).fill(-1);
+
+    orders.forEach((order, index) => {
+      if (order === undefined) {
+        return;
+      }
+
+      let low = 0;
+      let high = tails.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if ((orders[tails[mid]] as string) < order) {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+
+      previous[index] = low > 0 ? tails[low - 1] : -1;
+      tails[low] = index;
+    });
+
+    const kept = new Set<number>();
+    let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+    while (index !== -1) {
+      kept.add(index);
+      index = previous[index];
+    }
+    return kept;
+  }
+}
@@ -0,0 +1,67 @@
+import { isPlainObject } from '../utils';
+
+/**
+ * Increments (`p`) and decrements (`n`) made by a single client. Both only grow.
+ */
+export interface PNCounterEntry {
+  p: number;
+  n: number;
+}
+
+function isPNCounterEntry(value: unknown): value is PNCounterEntry {
+  return isPlainObject(value) && typeof value.p === 'number' && typeof value.n === 'number';
+}
+
+/**
+ * Positive-negative counter CRDT. Each client only modifies its own entry and
+ * entries are merged by taking the maximum of each component, so concurrent
+ * updates from different clients always add up.
+ */
+export class PNCounter {
+  private readonly entries = new Map<string, PNCounterEntry>();
+
+  get value(): number {
+    let total = 0;
+    for (const entry of this.entries.values()) {
+      total += entry.p - entry.n;
+    }
+    return total;
+  }
+
+  /**
+   * Applies a local change of the counter value to the client's own entry
+   *
+   * @returns The updated entry of the client
+   */
+  add(clientId: string, delta: number): PNCounterEntry {
+    const current = this.entries.get(clientId) ?? { p: 0, n: 0 };
+    const entry =
+      delta >= 0 ? { p: current.p + delta, n: current.n } : { p: current.p, n: current.n - delta };
+    this.entries.set(clientId, entry);
+    return { ...entry };
+  }
+
+  /**
+   * Merges an entry received from another replica. Invalid values are ignored.
+   *
+   * @returns Whether the counter value changed
+   */
+  merge(clientId: string, value: unknown): boolean {
+    if (!isPNCounterEntry(value)) {
+      return false;
+    }
+
+    const current = this.entries.get(clientId) ?? { p: 0, n: 0 };
+    const merged = { p: Math.max(current.p, value.p), n: Math.max(current.n, value.n) };
+    this.entries.set(clientId, merged);
+    return merged.p !== current.p || merged.n !== current.n;
+  }
+
+  remove(clientId: string): boolean {
+    return this.entries.delete(clientId);
+  }
+
+  getEntries(): Array<[string, PNCounterEntry]> {
+    return Array.from(this.entries, ([clientId, entry]) => [clientId, { ...entry }]);
+  }
+}
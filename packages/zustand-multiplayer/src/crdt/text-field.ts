@@ -0,0 +1,300 @@
+import { isPlainObject } from '../utils';
+import type { CrdtField, CrdtFieldContext, CrdtFieldWrite } from './crdt-field';
+
+/**
+ * Local edit of a text field. Indexes refer to the text as it is after the
+ * preceding operations of the same edit.
+ */
+export type TextOperation =
+  | { type: 'insert'; index: number; text: string }
+  | { type: 'delete'; index: number; length: number };
+
+/**
+ * Text inserted by one client in one go. Its characters have consecutive
+ * clocks starting at the key of the run, and each is placed after the
+ * previous one.
+ */
+interface TextRun {
+  /**
+   * Id of the character the run was inserted after, absent for the start (null
+   * would be dropped by merge patches)
+   */
+  origin?: string;
+  text: string;
+}
+
+/**
+ * Stored form of the edits of one client. Both maps only grow, so entries
+ * from different clients merge by union.
+ */
+export interface TextEntry {
+  runs: Record<string, TextRun>;
+  /** Ids of characters this client deleted */
+  deleted: Record<string, true>;
+}
+
+interface TextCharacter {
+  id: string;
+  clock: number;
+  clientId: string;
+  origin: string | null;
+  value: string;
+}
+
+function isTextRun(value: unknown): value is TextRun {
+  return (
+    isPlainObject(value) &&
+    (value.origin === undefined || typeof value.origin === 'string') &&
+    typeof value.text === 'string'
+  );
+}
+
+function createCharacterId(clock: number, clientId: string): string {
+  return `${clock}@${clientId}`;
+}
+
+/**
+ * Orders siblings so that the latest insertion at a position comes first
+ */
+function compareSiblings(a: TextCharacter, b: TextCharacter): number {
+  if (a.clock !== b.clock) {
+    return b.clock - a.clock;
+  }
+  return a.clientId < b.clientId ? 1 : a.clientId > b.clientId ? -1 : 0;
+}
+
+/**
+ * String field backed by a replicated growable array (RGA). Every character
+ * has a stable id made of a Lamport clock and the id of the client that
+ * inserted it, and is placed after the character it was inserted after.
+ * Deleted characters stay as tombstones so concurrent inserts next to them
+ * keep their position. Each client stores its edits under its own entry.
+ */
+export class TextField implements CrdtField {
+  private readonly entries = new Map<string, TextEntry>();
+  private readonly characters = new Map<string, TextCharacter>();
+  private readonly tombstones = new Set<string>();
+  private clock = 0;
+  private visible: TextCharacter[] | null = null;
+
+  constructor(private readonly context: CrdtFieldContext) {}
+
+  getValue(): string {
+    return this.getVisibleCharacters()
+      .map(character => character.value)
+      .join('');
+  }
+
+  applyLocalChange(_previousValue: unknown, currentValue: unknown): CrdtFieldWrite[] {
+    if (typeof currentValue !== 'string') {
+      this.context.logger.warn(`Text field '${this.context.field}' must hold a string`);
+      return [];
+    }
+
+    const text = this.getValue();
+    if (text === currentValue) {
+      return [];
+    }
+
+    // Replace the part between the common prefix and suffix
+    let prefix = 0;
+    while (
+      prefix < text.length &&
+      prefix < currentValue.length &&
+      text[prefix] === currentValue[prefix]
+    ) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < text.length - prefix &&
+      suffix < currentValue.length - prefix &&
+      text[text.length - 1 - suffix] === currentValue[currentValue.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    return this.applyOperations([
+      { type: 'delete', index: prefix, length: text.length - prefix - suffix },
+      {
+        type: 'insert',
+        index: prefix,
+        text: currentValue.slice(prefix, currentValue.length - suffix),
+      },
+    ]);
+  }
+
+  /**
+   * Applies local text operations
+   *
+   * @returns The writes needed to sync the operations
+   */
+  applyOperations(operations: TextOperation[]): CrdtFieldWrite[] {
+    const patch: TextEntry = { runs: {}, deleted: {} };
+
+    for (const operation of operations) {
+      const characters = this.getVisibleCharacters();
+      const index = Math.min(Math.max(Math.trunc(operation.index), 0), characters.length);
+
+      if (operation.type === 'insert') {
+        if (operation.text === '') {
+          continue;
+        }
+        const start = String(this.clock + 1);
+        const run: TextRun =
+          index > 0
+            ? { origin: characters[index - 1].id, text: operation.text }
+            : { text: operation.text };
+        patch.runs[start] = run;
+        this.integrate(this.context.clientId, { runs: { [start]: run } });
+      } else {
+        const deleted: Record<string, true> = {};
+        for (const character of characters.slice(index, index + Math.max(operation.length, 0))) {
+          deleted[character.id] = true;
+        }
+        Object.assign(patch.deleted, deleted);
+        this.integrate(this.context.clientId, { deleted });
+      }
+    }
+
+    const value: Partial<TextEntry> = {};
+    if (Object.keys(patch.runs).length > 0) {
+      value.runs = patch.runs;
+    }
+    if (Object.keys(patch.deleted).length > 0) {
+      value.deleted = patch.deleted;
+    }
+    if (Object.keys(value).length === 0) {
+      return [];
+    }
+    return [{ entryId: this.context.clientId, operation: 'set', value }];
+  }
+
+  applyRemoteChange(entryId: string, value: unknown): void {
+    if (value === null) {
+      this.removeEntry(entryId);
+    } else {
+      this.integrate(entryId, value);
+    }
+  }
+
+  /**
+   * Edits only add runs and tombstones, so stored entries are merged with the local ones
+   */
+  load(entries: Array<[string, unknown]>): void {
+    for (const [entryId, value] of entries) {
+      this.integrate(entryId, value);
+    }
+  }
+
+  getEntries(): Array<[string, unknown]> {
+    return Array.from(this.entries, ([entryId, entry]) => [
+      entryId,
+      { runs: { ...entry.runs }, deleted: { ...entry.deleted } },
+    ]);
+  }
+
+  /**
+   * Adds the runs and tombstones of a (partial) entry that are not known yet
+   */
+  private integrate(clientId: string, value: unknown): void {
+    if (!isPlainObject(value)) {
+      return;
+    }
+
+    let entry = this.entries.get(clientId);
+    if (entry === undefined) {
+      entry = { runs: {}, deleted: {} };
+      this.entries.set(clientId, entry);
+    }
+
+    if (isPlainObject(value.runs)) {
+      for (const [start, run] of Object.entries(value.runs)) {
+        const clock = Number(start);
+        if (!Number.isSafeInteger(clock) || clock < 1 || !isTextRun(run) || start in entry.runs) {
+          continue;
+        }
+        entry.runs[start] =
+          run.origin !== undefined ? { origin: run.origin, text: run.text } : { text: run.text };
+        this.addRun(clientId, clock, run);
+      }
+    }
+
+    if (isPlainObject(value.deleted)) {
+      for (const [id, deleted] of Object.entries(value.deleted)) {
+        if (deleted === true) {
+          entry.deleted[id] = true;
+          this.tombstones.add(id);
+        }
+      }
+    }
+
+    this.visible = null;
+  }
+
+  private addRun(clientId: string, start: number, run: TextRun): void {
+    let origin = run.origin ?? null;
+    for (let offset = 0; offset < run.text.length; offset++) {
+      const clock = start + offset;
+      const id = createCharacterId(clock, clientId);
+      this.characters.set(id, { id, clock, clientId, origin, value: run.text[offset] });
+      origin = id;
+    }
+    this.clock = Math.max(this.clock, start + run.text.length - 1);
+  }
+
+  private removeEntry(clientId: string): void {
+    if (!this.entries.delete(clientId)) {
+      return;
+    }
+
+    this.characters.clear();
+    this.tombstones.clear();
+    for (const [entryId, entry] of this.entries) {
+      for (const [start, run] of Object.entries(entry.runs)) {
+        this.addRun(entryId, Number(start), run);
+      }
+      for (const id of Object.keys(entry.deleted)) {
+        this.tombstones.add(id);
+      }
+    }
+    this.visible = null;
+  }
+
+  /**
+   * Characters in document order, without tombstones. Characters whose origin
+   * is not known yet are left out until it arrives.
+   */
+  private getVisibleCharacters(): TextCharacter[] {
+    if (this.visible !== null) {
+      return this.visible;
+    }
+
+    const children = new Map<string | null, TextCharacter[]>();
+    for (const character of this.characters.values()) {
+      const siblings = children.get(character.origin);
+      if (siblings === undefined) {
+        children.set(character.origin, [character]);
+      } else {
+        siblings.push(character);
+      }
+    }
+
+    // Depth-first traversal; runs form long chains, so avoid recursion
+    const visible: TextCharacter[] = [];
+    const stack = [...(children.get(null) ?? [])].sort(compareSiblings).reverse();
+    while (stack.length > 0) {
+      const character = stack.pop() as TextCharacter;
+      if (!this.tombstones.has(character.id)) {
+        visible.push(character);
+      }
+      const next = children.get(character.id);
+      if (next !== undefined) {
+        stack.push(...[...next].sort(compareSiblings).reverse());
+      }
+    }
+
+    this.visible = visible;
+    return visible;
+  }
+}
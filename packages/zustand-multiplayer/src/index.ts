@@ -1,10 +1,77 @@
 export { multiplayer } from './multiplayer';
+export { counter, list, text } from './crdt/field-types';
+export type {
+  CounterFieldType,
+  FieldType,
+  ListFieldOptions,
+  ListFieldType,
+  TextFieldType,
+} from './crdt/field-types';
+export type { TextOperation } from './crdt/text-field';
 export type {
   MultiplayerOptions,
   WithMultiplayer,
   MultiplayerState,
+  ConflictResolver,
+  ConflictResolutionMeta,
+  ConflictEvent,
+  MultiplayerEvents,
 } from './types/multiplayer-types';
+export type { PendingChange } from './core/offline-queue';
+export type { PresenceEntry, PresenceListener, PresenceOptions } from './core/presence-manager';
+export { fromStandardSchema } from './core/schema-validator';
+export type {
+  FieldSchema,
+  FieldValidator,
+  SchemaPolicy,
+  StandardSchemaV1,
+} from './core/schema-validator';
+export type { SyncStatus } from './core/sync-tracker';
+export type { UndoOptions } from './core/undo-manager';
+export type { KeyMetadata } from './core/version-tracker';
+export type { BatchingOptions } from './core/write-batcher';
 export type { PerformanceMetrics } from './monitoring/profiler';
+export type {
+  StorageAdapter,
+  StorageAdapterContext,
+  StorageAdapterFactory,
+  StorageChangeEvent,
+  StorageChangeListener,
+  StorageConnectionListener,
+  StorageTokenListener,
+  StoredValue,
+} from './storage/storage-adapter';
+export { HPKVStorage } from './storage/hpkv-storage';
+export { gzipCodec } from './storage/compressing-storage';
+export type { CompressionCodec, CompressionOptions } from './storage/compressing-storage';
+export type {
+  EncryptionCryptoKey,
+  EncryptionKey,
+  EncryptionOptions,
+} from './storage/encrypting-storage';
+export { jsonSerializer, taggedJsonSerializer } from './storage/serializer';
+export type { Serializer } from './storage/serializer';
+export type { HPKVStorageOptions } from './storage/hpkv-storage';
+export { MemoryStorage, MemoryStorageServer, createMemoryStorage } from './storage/memory-storage';
+export { createIndexedDBBackend, createLocalStorageBackend } from './storage/local-persistence';
+export type {
+  IDBFactoryLike,
+  LocalPersistenceBackend,
+  WebStorageLike,
+} from './storage/local-persistence';
+export type {
+  MemoryStorageNotification,
+  MemoryStorageRecord,
+  MemoryStorageServerOptions,
+} from './storage/memory-storage';
 export * from './monitoring/logger';
 export * from './utils';
 export * from './auth/token-helper';
+export { createFetchTokenHandler, createNodeTokenHandler } from './auth/token-handlers';
+export type {
+  NodeRequestLike,
+  NodeResponseLike,
+  TokenAuthorizer,
+  TokenHandlerCorsOptions,
+  TokenHandlerOptions,
+} from './auth/token-handlers';
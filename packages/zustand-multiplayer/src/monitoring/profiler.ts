@@ -2,11 +2,17 @@ import { MAX_OPERATION_HISTORY } from '../utils/constants';
 
 export interface PerformanceMetrics {
   averageSyncTime: number;
+  /** Total size of compressed values before compression, in bytes */
+  bytesBeforeCompression: number;
+  /** Total size of compressed values as stored, in bytes */
+  bytesAfterCompression: number;
 }
 
 export class PerformanceMonitor {
   private readonly metrics: PerformanceMetrics = {
     averageSyncTime: 0,
+    bytesBeforeCompression: 0,
+    bytesAfterCompression: 0,
   };
   private readonly syncTimes: number[] = [];
 
@@ -21,6 +27,11 @@ export class PerformanceMonitor {
         : 0;
   }
 
+  recordCompression(bytesBefore: number, bytesAfter: number): void {
+    this.metrics.bytesBeforeCompression += bytesBefore;
+    this.metrics.bytesAfterCompression += bytesAfter;
+  }
+
   getMetrics(): PerformanceMetrics {
     return { ...this.metrics };
   }
@@ -31,5 +42,7 @@ export class PerformanceMonitor {
   cleanup(): void {
     this.syncTimes.length = 0;
     this.metrics.averageSyncTime = 0;
+    this.metrics.bytesBeforeCompression = 0;
+    this.metrics.bytesAfterCompression = 0;
   }
 }
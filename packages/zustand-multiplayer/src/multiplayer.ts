@@ -1,10 +1,19 @@
 import { ConnectionState } from '@hpkv/websocket-client';
 import type { StateCreator, StoreMutatorIdentifier, StoreApi } from 'zustand/vanilla';
 import { Orchestrator } from './core/orchestrator';
+import type { PresenceEntry } from './core/presence-manager';
+import { PRESENCE_KEY_SEGMENT } from './core/presence-manager';
+import { STATE_VERSION_KEY_SEGMENT } from './core/state-version';
+import { TRANSACTION_KEY_SEGMENT } from './core/transaction-record';
 import { createLogger, LogLevel } from './monitoring/logger';
 import { PerformanceMonitor } from './monitoring/profiler';
+import { CompressingStorage } from './storage/compressing-storage';
+import { EncryptingStorage } from './storage/encrypting-storage';
 import type { HPKVStorageOptions } from './storage/hpkv-storage';
 import { HPKVStorage } from './storage/hpkv-storage';
+import { jsonSerializer } from './storage/serializer';
+import { SerializingStorage } from './storage/serializing-storage';
+import type { StorageAdapterFactory } from './storage/storage-adapter';
 import type {
   MultiplayerStoreApi,
   WithMultiplayer,
@@ -77,6 +86,9 @@ function createPathPatterns<T>(syncFields: Array<keyof T>): string[] {
     pathPatterns.add(keyStr);
     pathPatterns.add(`${keyStr}:*`);
   });
+  pathPatterns.add(`${PRESENCE_KEY_SEGMENT}:*`);
+  pathPatterns.add(`${TRANSACTION_KEY_SEGMENT}:*`);
+  pathPatterns.add(STATE_VERSION_KEY_SEGMENT);
 
   return Array.from(pathPatterns);
 }
@@ -90,6 +102,30 @@ function extractNonFunctionKeys<T>(initialState: Record<string, unknown>): Array
   >;
 }
 
+/**
+ * Creates the default storage adapter factory backed by HPKV
+ */
+function createHPKVStorageFactory<T>(options: MultiplayerOptions<T>): StorageAdapterFactory {
+  const hpkvStorageOptions: HPKVStorageOptions = {
+    namespace: options.namespace,
+    apiBaseUrl: options.apiBaseUrl ?? '',
+    apiKey: options.apiKey,
+    tokenGenerationUrl: options.tokenGenerationUrl,
+    getToken: options.getToken,
+    tokenRequestInit: options.tokenRequestInit,
+    rateLimit: options.rateLimit,
+    zFactor: options.zFactor,
+  };
+
+  return context =>
+    new HPKVStorage(
+      hpkvStorageOptions,
+      context.subscribedKeys,
+      context.logger,
+      context.performanceMonitor,
+    );
+}
+
 /**
  * Performs async initialization of the orchestrator
  */
@@ -98,6 +134,7 @@ async function initializeOrchestrator<T>(
   logger: ReturnType<typeof createLogger>,
 ): Promise<void> {
   try {
+    await orchestrator.restoreLocalState();
     await orchestrator.connect();
     await orchestrator.hydrate();
     logger.info('Multiplayer store initialized successfully', {
@@ -131,7 +168,9 @@ const multiplayerImpl: MultiplayerImpl = (config, options) => {
      * Multiplayer setState wrapper for synchronization
      */
     const multiplayerSet: typeof set = (partial, replace) => {
-      void orchestrator.handleLocalStateChange(partial, replace);
+      orchestrator.handleLocalStateChange(partial, replace).catch(() => {
+        // Failed writes are logged and reported as `syncError` events; only setAndSync rejects
+      });
     };
 
     (api as StoreApi<T> & MultiplayerStoreApi<T>).multiplayer = {
@@ -142,6 +181,26 @@ const multiplayerImpl: MultiplayerImpl = (config, options) => {
       destroy: () => orchestrator.destroy(),
       getConnectionStatus: () => orchestrator.getConnectionStatus(),
       getMetrics: () => orchestrator.getMetrics(),
+      getPendingChanges: () => orchestrator.getPendingChanges(),
+      getKeyMetadata: path => orchestrator.getKeyMetadata(path),
+      editText: (field, operations) => orchestrator.editText(field, operations),
+      presence: {
+        set: data => orchestrator.setPresence(data),
+        clear: () => orchestrator.clearPresence(),
+        getAll: <TPresence>() => orchestrator.getPresence() as PresenceEntry<TPresence>[],
+      },
+      undo: () => orchestrator.undo(),
+      redo: () => orchestrator.redo(),
+      canUndo: () => orchestrator.canUndo(),
+      canRedo: () => orchestrator.canRedo(),
+      groupUndo: fn => orchestrator.groupUndo(fn),
+      transaction: fn => orchestrator.transaction(fn),
+      flush: () => orchestrator.flush(),
+      setAndSync: (partial, replace) => orchestrator.setAndSync(partial, replace),
+      getSyncStatus: path => orchestrator.getSyncStatus(path),
+      on: (event, handler) => orchestrator.on(event, handler),
+      onPresenceChange: listener =>
+        orchestrator.onPresenceChange(listener as (entries: PresenceEntry[]) => void),
     };
 
     api.setState = multiplayerSet;
@@ -154,22 +213,29 @@ const multiplayerImpl: MultiplayerImpl = (config, options) => {
     const syncFields = normalizedOptions.sync;
     const subscribedKeysArray = createPathPatterns(syncFields);
 
-    const hpkvStorageOptions: HPKVStorageOptions = {
+    const performanceMonitor = new PerformanceMonitor();
+    const createStorage = normalizedOptions.storage ?? createHPKVStorageFactory(normalizedOptions);
+    const serializer = normalizedOptions.serializer ?? jsonSerializer;
+    let storage = createStorage({
       namespace: normalizedOptions.namespace,
-      apiBaseUrl: normalizedOptions.apiBaseUrl,
-      apiKey: normalizedOptions.apiKey,
-      tokenGenerationUrl: normalizedOptions.tokenGenerationUrl,
-      rateLimit: normalizedOptions.rateLimit,
       zFactor: normalizedOptions.zFactor,
-    };
-
-    const performanceMonitor = new PerformanceMonitor();
-    const client = new HPKVStorage(
-      hpkvStorageOptions,
-      subscribedKeysArray,
+      subscribedKeys: subscribedKeysArray,
       logger,
       performanceMonitor,
-    );
+    });
+    if (normalizedOptions.encryption !== undefined) {
+      storage = new EncryptingStorage(storage, normalizedOptions.encryption, logger);
+    }
+    // Values are compressed before they are encrypted, as ciphertext does not compress
+    if (normalizedOptions.compression !== undefined) {
+      storage = new CompressingStorage(
+        storage,
+        normalizedOptions.compression,
+        logger,
+        performanceMonitor,
+      );
+    }
+    const client = new SerializingStorage(storage, serializer);
 
     orchestrator = new Orchestrator(
       client,
@@ -177,6 +243,7 @@ const multiplayerImpl: MultiplayerImpl = (config, options) => {
       { ...api, setState: originalSet },
       performanceMonitor,
       logger,
+      baseState,
     );
 
     const multiplayerState: MultiplayerState = {
@@ -184,6 +251,7 @@ const multiplayerImpl: MultiplayerImpl = (config, options) => {
         client?.getConnectionStatus()?.connectionState ?? ConnectionState.DISCONNECTED,
       hasHydrated: false,
       performanceMetrics: orchestrator.getMetrics(),
+      pendingWrites: 0,
     };
 
     void initializeOrchestrator(orchestrator, logger);
@@ -0,0 +1,5 @@
+/**
+ * Node.js-only exports, kept out of the main entry so browser bundles never
+ * reference Node built-ins such as `fs`
+ */
+export { createFileBackend } from './storage/file-backend';
@@ -0,0 +1,113 @@
+import type { Logger } from '../monitoring/logger';
+import type { PerformanceMonitor } from '../monitoring/profiler';
+import { fromBase64, toBase64 } from '../utils';
+import { DEFAULT_COMPRESSION_THRESHOLD } from '../utils/constants';
+import { EncodingStorage } from './encoding-storage';
+import type { StorageAdapter } from './storage-adapter';
+
+/**
+ * Compresses and decompresses bytes. The name is stored with each compressed
+ * record, so clients can tell which codec a record needs.
+ */
+export interface CompressionCodec {
+  name: string;
+  compress(data: Uint8Array): Promise<Uint8Array>;
+  decompress(data: Uint8Array): Promise<Uint8Array>;
+}
+
+export interface CompressionOptions {
+  /** Codec used to compress and decompress values (default: `gzipCodec`) */
+  codec?: CompressionCodec;
+  /** Size in bytes of a value's JSON from which it is compressed (default: 1024) */
+  threshold?: number;
+}
+
+const COMPRESSED_PREFIX = '~zip:v1:';
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    chunks.push(result.value);
+  }
+
+  const output = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return output;
+}
+
+async function transform(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  const [, output] = await Promise.all([
+    writer.write(data as Uint8Array<ArrayBuffer>).then(() => writer.close()),
+    readAll(stream.readable as ReadableStream<Uint8Array>),
+  ]);
+  return output;
+}
+
+/**
+ * Codec using gzip through the `CompressionStream` API of browsers and Node.js
+ */
+export const gzipCodec: CompressionCodec = {
+  name: 'gzip',
+  compress: data => transform(data, new CompressionStream('gzip')),
+  decompress: data => transform(data, new DecompressionStream('gzip')),
+};
+
+/**
+ * Storage adapter that compresses values whose JSON is larger than a
+ * threshold before they are passed to another adapter. Smaller values are
+ * passed on as they are, and so are values that do not get smaller.
+ */
+export class CompressingStorage extends EncodingStorage {
+  private readonly codec: CompressionCodec;
+  private readonly threshold: number;
+
+  constructor(
+    storage: StorageAdapter,
+    options: CompressionOptions,
+    logger: Logger,
+    private readonly performanceMonitor: PerformanceMonitor,
+  ) {
+    super(storage, logger);
+    this.codec = options.codec ?? gzipCodec;
+    this.threshold = options.threshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+  }
+
+  protected isEncoded(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(COMPRESSED_PREFIX);
+  }
+
+  protected async encode(value: unknown): Promise<string | undefined> {
+    const data = new TextEncoder().encode(JSON.stringify(value));
+    if (data.byteLength < this.threshold) {
+      return undefined;
+    }
+
+    const compressed = `${COMPRESSED_PREFIX}${encodeURIComponent(this.codec.name)}:${toBase64(await this.codec.compress(data))}`;
+    if (compressed.length >= data.byteLength) {
+      return undefined;
+    }
+    this.performanceMonitor.recordCompression(data.byteLength, compressed.length);
+    return compressed;
+  }
+
+  protected async decode(key: string, value: string): Promise<unknown> {
+    const [codecName, data] = value.slice(COMPRESSED_PREFIX.length).split(':');
+    const name = decodeURIComponent(codecName);
+    if (name !== this.codec.name) {
+      throw new Error(
+        `Value of '${key}' was compressed with '${name}', but the codec is '${this.codec.name}'`,
+      );
+    }
+    const decompressed = await this.codec.decompress(fromBase64(data));
+    return JSON.parse(new TextDecoder().decode(decompressed)) as unknown;
+  }
+}
@@ -0,0 +1,189 @@
+import type { ConnectionStats } from '@hpkv/websocket-client';
+import { StateDiffManager } from '../core/state-diff-manager';
+import type { Logger } from '../monitoring/logger';
+import { applyMergePatch } from '../utils';
+import type {
+  StorageAdapter,
+  StorageChangeListener,
+  StorageConnectionListener,
+  StorageTokenListener,
+  StoredValue,
+} from './storage-adapter';
+
+/**
+ * Base for storage adapters that store values of another adapter as encoded
+ * strings, e.g. encrypted or compressed.
+ *
+ * Merge patches replace encoded strings as a whole, so encoded writes always
+ * contain the full value of a key, built from the last known value and the
+ * patch. Remote changes to encoded keys are turned back into patches against
+ * the last known value before they are passed on, so listeners keep receiving
+ * patches. Values that are not encoded are passed through as patches.
+ */
+export abstract class EncodingStorage implements StorageAdapter {
+  readonly addTokenListener?: (listener: StorageTokenListener) => () => void;
+  private readonly diffManager = new StateDiffManager();
+  private readonly values = new Map<string, unknown>();
+  private readonly encodedKeys = new Set<string>();
+  private encodings: Promise<unknown> = Promise.resolve();
+  private changes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    protected readonly logger: Logger,
+  ) {
+    this.addTokenListener = storage.addTokenListener?.bind(storage);
+  }
+
+  /**
+   * Encodes the full value of a key
+   * @returns The encoded string, or undefined to store the value as it is
+   */
+  protected abstract encode(value: unknown): Promise<string | undefined>;
+
+  protected abstract isEncoded(value: unknown): value is string;
+
+  /**
+   * Decodes a value; throws if it cannot be decoded
+   */
+  protected abstract decode(key: string, value: string): Promise<unknown>;
+
+  /**
+   * Checks a value that is not encoded; throws if it must not be accepted
+   */
+  protected acceptUnencoded(_key: string, value: unknown): unknown {
+    return value;
+  }
+
+  getClientId(): string {
+    return this.storage.getClientId();
+  }
+
+  addChangeListener(listener: StorageChangeListener): () => void {
+    return this.storage.addChangeListener(event => {
+      // Decoding is asynchronous; chaining keeps changes in the order they arrived
+      this.changes = this.changes.then(async () => {
+        if (event.value === null) {
+          this.forget(event.key);
+          listener(event);
+          return;
+        }
+        try {
+          listener({ ...event, value: await this.decodeChange(event.key, event.value) });
+        } catch (error) {
+          this.logger.error('Failed to decode remote change', error as Error, {
+            operation: 'decode',
+            key: event.key,
+          });
+        }
+      });
+    });
+  }
+
+  addConnectionListener(listener: StorageConnectionListener): () => void {
+    return this.storage.addConnectionListener(listener);
+  }
+
+  ensureConnection(): Promise<void> {
+    return this.storage.ensureConnection();
+  }
+
+  getConnectionStatus(): ConnectionStats | null {
+    return this.storage.getConnectionStatus();
+  }
+
+  async getAllItems(): Promise<Map<string, StoredValue>> {
+    const items = await this.storage.getAllItems();
+    const result = new Map<string, StoredValue>();
+    for (const [key, storedValue] of items) {
+      try {
+        const isEncoded = this.isEncoded(storedValue.value);
+        const value = isEncoded
+          ? await this.decode(key, storedValue.value as string)
+          : this.acceptUnencoded(key, storedValue.value);
+        this.remember(key, value, isEncoded);
+        result.set(key, { ...storedValue, value });
+      } catch (error) {
+        this.logger.error('Skipping record that cannot be decoded', error as Error, {
+          operation: 'decode',
+          key,
+        });
+      }
+    }
+    return result;
+  }
+
+  async setItem(key: string, value: unknown, timestamp?: number): Promise<void> {
+    const fullValue = applyMergePatch(this.values.get(key), value);
+    this.values.set(key, fullValue);
+
+    // Encodings finish in the order they were started, so writes reach the adapter in order
+    const encoded = this.encodings.then(() => this.encode(fullValue));
+    this.encodings = encoded.catch(() => undefined);
+    const encodedValue = await encoded;
+
+    if (encodedValue !== undefined) {
+      this.encodedKeys.add(key);
+      return this.storage.setItem(key, encodedValue, timestamp);
+    }
+    // A plain value replacing an encoded one has to be written in full
+    const wasEncoded = this.encodedKeys.delete(key);
+    return this.storage.setItem(key, wasEncoded ? fullValue : value, timestamp);
+  }
+
+  removeItem(key: string): Promise<void> {
+    this.forget(key);
+    return this.storage.removeItem(key);
+  }
+
+  clear(): Promise<void> {
+    this.forgetAll();
+    return this.storage.clear();
+  }
+
+  close(): Promise<void> {
+    return this.storage.close();
+  }
+
+  destroy(): Promise<void> {
+    this.forgetAll();
+    return this.storage.destroy();
+  }
+
+  private async decodeChange(key: string, value: unknown): Promise<unknown> {
+    const previous = this.values.get(key);
+    if (this.isEncoded(value)) {
+      const fullValue = await this.decode(key, value);
+      this.remember(key, fullValue, true);
+      return this.diffManager.calculateDiff(previous, fullValue).data;
+    }
+
+    const plainValue = this.acceptUnencoded(key, value);
+    if (this.encodedKeys.has(key)) {
+      // The writer replaced an encoded value, so this is the full value
+      this.remember(key, plainValue, false);
+      return this.diffManager.calculateDiff(previous, plainValue).data;
+    }
+    this.remember(key, applyMergePatch(previous, plainValue), false);
+    return plainValue;
+  }
+
+  private remember(key: string, value: unknown, isEncoded: boolean): void {
+    this.values.set(key, value);
+    if (isEncoded) {
+      this.encodedKeys.add(key);
+    } else {
+      this.encodedKeys.delete(key);
+    }
+  }
+
+  private forget(key: string): void {
+    this.values.delete(key);
+    this.encodedKeys.delete(key);
+  }
+
+  private forgetAll(): void {
+    this.values.clear();
+    this.encodedKeys.clear();
+  }
+}
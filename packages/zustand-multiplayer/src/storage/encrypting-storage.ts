@@ -0,0 +1,108 @@
+import type { Logger } from '../monitoring/logger';
+import { fromBase64, toBase64 } from '../utils';
+import { EncodingStorage } from './encoding-storage';
+import type { StorageAdapter } from './storage-adapter';
+
+type SubtleCrypto = typeof globalThis.crypto.subtle;
+export type EncryptionCryptoKey = Awaited<ReturnType<SubtleCrypto['importKey']>>;
+
+export interface EncryptionKey {
+  /** Identifies the key in encrypted records, so it can be found when decrypting */
+  id: string;
+  /** AES-GCM key, or the raw bytes of a 128 or 256 bit key */
+  key: EncryptionCryptoKey | Uint8Array;
+}
+
+export interface EncryptionOptions {
+  /** The first key encrypts new values; all keys are used to decrypt, to support key rotation */
+  keys: EncryptionKey[];
+  /** Accept records that are not encrypted, e.g. while migrating an existing store (default: false) */
+  allowUnencrypted?: boolean;
+}
+
+const ENCRYPTED_PREFIX = '~enc:v1:';
+const IV_LENGTH = 12;
+
+/**
+ * Storage adapter that encrypts values with AES-GCM before they are passed to
+ * another adapter, so the server only ever sees ciphertext.
+ */
+export class EncryptingStorage extends EncodingStorage {
+  private readonly subtle: SubtleCrypto;
+  private readonly cryptoKeys = new Map<string, Promise<EncryptionCryptoKey>>();
+
+  constructor(
+    storage: StorageAdapter,
+    private readonly options: EncryptionOptions,
+    logger: Logger,
+  ) {
+    super(storage, logger);
+    const subtle = globalThis.crypto?.subtle as SubtleCrypto | undefined;
+    if (subtle === undefined) {
+      throw new Error('Encryption requires the Web Crypto API (crypto.subtle)');
+    }
+    this.subtle = subtle;
+  }
+
+  protected isEncoded(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+  }
+
+  protected acceptUnencoded(key: string, value: unknown): unknown {
+    if (this.options.allowUnencrypted !== true) {
+      throw new Error(`Value of '${key}' is not encrypted`);
+    }
+    return value;
+  }
+
+  protected async encode(value: unknown): Promise<string> {
+    const [encryptionKey] = this.options.keys;
+    const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const data = new TextEncoder().encode(JSON.stringify(value));
+    const cipherText = await this.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.getCryptoKey(encryptionKey),
+      data,
+    );
+    return `${ENCRYPTED_PREFIX}${encodeURIComponent(encryptionKey.id)}:${toBase64(iv)}:${toBase64(new Uint8Array(cipherText))}`;
+  }
+
+  protected async decode(key: string, value: string): Promise<unknown> {
+    const [keyId, iv, data] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+    const id = decodeURIComponent(keyId);
+    const encryptionKey = this.options.keys.find(candidate => candidate.id === id);
+    if (encryptionKey === undefined) {
+      throw new Error(`No encryption key with id '${id}' to decrypt '${key}'`);
+    }
+
+    let plainText: ArrayBuffer;
+    try {
+      plainText = await this.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(iv) },
+        await this.getCryptoKey(encryptionKey),
+        fromBase64(data),
+      );
+    } catch {
+      throw new Error(
+        `Failed to decrypt '${key}' with key '${id}': the key does not match or the data was modified`,
+      );
+    }
+    return JSON.parse(new TextDecoder().decode(plainText)) as unknown;
+  }
+
+  private getCryptoKey(encryptionKey: EncryptionKey): Promise<EncryptionCryptoKey> {
+    let cryptoKey = this.cryptoKeys.get(encryptionKey.id);
+    if (cryptoKey === undefined) {
+      const { key } = encryptionKey;
+      cryptoKey =
+        key instanceof Uint8Array
+          ? this.subtle.importKey('raw', key as Uint8Array<ArrayBuffer>, 'AES-GCM', false, [
+              'encrypt',
+              'decrypt',
+            ])
+          : Promise.resolve(key);
+      this.cryptoKeys.set(encryptionKey.id, cryptoKey);
+    }
+    return cryptoKey;
+  }
+}
@@ -0,0 +1,47 @@
+import { readFile, writeFile } from 'fs/promises';
+import type { LocalPersistenceBackend } from './local-persistence';
+
+/**
+ * Creates a backend that stores data in a JSON file. Intended for Node.js
+ * environments such as tests and scripts.
+ *
+ * @param filePath Path of the JSON file to read and write
+ */
+export function createFileBackend(filePath: string): LocalPersistenceBackend {
+  let pendingWrite: Promise<void> = Promise.resolve();
+
+  const readAll = async (): Promise<Record<string, string>> => {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf-8')) as Record<string, string>;
+    } catch {
+      return {};
+    }
+  };
+
+  // Serialize read-modify-write cycles so concurrent updates do not overwrite each other
+  const update = (modify: (data: Record<string, string>) => void): Promise<void> => {
+    pendingWrite = pendingWrite
+      .catch(() => undefined)
+      .then(async () => {
+        const data = await readAll();
+        modify(data);
+        await writeFile(filePath, JSON.stringify(data), 'utf-8');
+      });
+    return pendingWrite;
+  };
+
+  return {
+    getItem: async key => {
+      await pendingWrite.catch(() => undefined);
+      return (await readAll())[key] ?? null;
+    },
+    setItem: (key, value) =>
+      update(data => {
+        data[key] = value;
+      }),
+    removeItem: key =>
+      update(data => {
+        delete data[key];
+      }),
+  };
+}
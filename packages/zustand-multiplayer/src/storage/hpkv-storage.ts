@@ -4,26 +4,42 @@ import type {
   ConnectionStats,
 } from '@hpkv/websocket-client';
 import { ConnectionState, HPKVClientFactory } from '@hpkv/websocket-client';
+import type { TokenProvider, TokenRequestInit } from '../auth/token-helper';
 import { TokenManager } from '../auth/token-manager';
 import type { Logger } from '../monitoring/logger';
 import type { PerformanceMonitor } from '../monitoring/profiler';
-import { generateClientId } from '../utils';
+import { clearTimeoutSafely, generateClientId } from '../utils';
+import { AUTH_FAILURE_CLOSE_CODES, TOKEN_SWITCH_DEDUPLICATION_WINDOW } from '../utils/constants';
 import { createRetryManager } from '../utils/retry';
+import type {
+  StorageAdapter,
+  StorageChangeEvent,
+  StorageChangeListener,
+  StorageConnectionListener,
+  StorageTokenListener,
+  StoredValue,
+} from './storage-adapter';
 import { StorageKeyManager } from './storage-key-manager';
 
-export interface HPKVChangeEvent {
-  key: string;
-  value: unknown;
-  timestamp?: number;
-}
+// Only explicit rejections; other errors, such as JSON parse errors about an "unexpected token",
+// must not discard a valid token
+const AUTH_FAILURE_PATTERN =
+  /\b40[13]\b|\bunauthori[sz]ed\b|\bforbidden\b|\b(?:invalid|expired)\s+(?:access\s+)?(?:token|jwt)\b|\b(?:token|jwt)\s+(?:has\s+|is\s+)?expired\b/i;
 
-export type HPKVChangeListener = (event: HPKVChangeEvent) => void;
-export type HPKVConnectionListener = (connectionState: ConnectionState) => void;
+/**
+ * Whether a close code or error message means the server rejected the token
+ */
+function isAuthFailure(code?: number, message?: unknown): boolean {
+  return (
+    (code !== undefined && AUTH_FAILURE_CLOSE_CODES.includes(code)) ||
+    (message !== undefined && AUTH_FAILURE_PATTERN.test(String(message)))
+  );
+}
 
-export interface StoredValue {
-  value: unknown;
-  clientId?: string;
-  timestamp?: number;
+interface DisconnectDetails {
+  code?: number;
+  reason?: unknown;
+  gracefully?: boolean;
 }
 
 export interface HPKVStorageOptions {
@@ -31,6 +47,8 @@ export interface HPKVStorageOptions {
   apiBaseUrl: string;
   apiKey?: string;
   tokenGenerationUrl?: string;
+  getToken?: TokenProvider;
+  tokenRequestInit?: TokenRequestInit;
   rateLimit?: number;
   zFactor?: number;
 }
@@ -39,18 +57,22 @@ export interface HPKVStorageOptions {
  * HPKV storage implementation focused on core functionality
  * Clean and maintainable implementation without unnecessary abstractions
  */
-export class HPKVStorage {
+export class HPKVStorage implements StorageAdapter {
   // Core client and subscription
   private client: HPKVSubscriptionClient | null = null;
-  private subscriptionId: string | null = null;
   private connectionPromise: Promise<void> | null = null;
-  private readonly changeListeners = new Set<(event: HPKVChangeEvent) => void>();
-  private readonly connectionListeners = new Set<(state: ConnectionState) => void>();
+  private readonly changeListeners = new Set<StorageChangeListener>();
+  private readonly connectionListeners = new Set<StorageConnectionListener>();
+  private readonly tokenListeners = new Set<StorageTokenListener>();
   private readonly cleanupCallbacks = new Set<() => void>();
   private readonly clientId: string;
   private readonly tokenManager: TokenManager;
   private readonly keyManager: StorageKeyManager;
   private readonly retryManager;
+  private authRefreshPromise: Promise<void> | null = null;
+  // Notifications seen while two clients are subscribed, by the client that delivered them
+  private switchNotifications: Map<string, HPKVSubscriptionClient> | null = null;
+  private switchNotificationsTimer: ReturnType<typeof setTimeout> | null = null;
 
   private isDestroyed = false;
 
@@ -73,6 +95,8 @@ export class HPKVStorage {
       apiBaseUrl: options.apiBaseUrl,
       apiKey: options.apiKey,
       tokenGenerationUrl: options.tokenGenerationUrl,
+      getToken: options.getToken,
+      tokenRequestInit: options.tokenRequestInit,
       subscribedKeys: this.subscribedKeys,
       keyManager: this.keyManager,
       retryManager: this.retryManager,
@@ -81,6 +105,9 @@ export class HPKVStorage {
     });
 
     this.tokenManager.setTokenRefreshCallback(() => this.handleTokenRefresh());
+    this.tokenManager.setTokenGeneratedCallback((expiresAt, permissions) => {
+      this.tokenListeners.forEach(listener => listener(expiresAt, permissions));
+    });
   }
 
   // ============================================================================
@@ -91,16 +118,21 @@ export class HPKVStorage {
     return this.clientId;
   }
 
-  addChangeListener(listener: (event: HPKVChangeEvent) => void): () => void {
+  addChangeListener(listener: StorageChangeListener): () => void {
     this.changeListeners.add(listener);
     return () => this.changeListeners.delete(listener);
   }
 
-  addConnectionListener(listener: (state: ConnectionState) => void): () => void {
+  addConnectionListener(listener: StorageConnectionListener): () => void {
     this.connectionListeners.add(listener);
     return () => this.connectionListeners.delete(listener);
   }
 
+  addTokenListener(listener: StorageTokenListener): () => void {
+    this.tokenListeners.add(listener);
+    return () => this.tokenListeners.delete(listener);
+  }
+
   async ensureConnection(): Promise<void> {
     if (this.isDestroyed) {
       throw new Error('Client has been destroyed');
@@ -126,13 +158,13 @@ export class HPKVStorage {
     return this.client?.getConnectionStats() ?? null;
   }
 
-  async getAllItems(): Promise<Map<string, unknown>> {
+  async getAllItems(): Promise<Map<string, StoredValue>> {
     await this.ensureConnection();
     if (!this.client) {
       throw new Error('No connection available');
     }
 
-    const result = new Map<string, unknown>();
+    const result = new Map<string, StoredValue>();
     const namespaceRange = this.keyManager.getNamespaceRange();
     let startKey = namespaceRange.start;
     let hasMore = true;
@@ -144,9 +176,9 @@ export class HPKVStorage {
         for (const record of response.records) {
           try {
             const storedValue: StoredValue = JSON.parse(record.value) as StoredValue;
-            result.set(record.key, storedValue.value);
+            result.set(record.key, storedValue);
           } catch {
-            result.set(record.key, record.value);
+            result.set(record.key, { value: record.value });
           }
         }
 
@@ -164,7 +196,7 @@ export class HPKVStorage {
     return result;
   }
 
-  async setItem(key: string, value: unknown): Promise<void> {
+  async setItem(key: string, value: unknown, timestamp = Date.now()): Promise<void> {
     await this.ensureConnection();
     if (!this.client) {
       throw new Error('No connection available');
@@ -173,7 +205,7 @@ export class HPKVStorage {
     const storedValue: StoredValue = {
       value,
       clientId: this.clientId,
-      timestamp: Date.now(),
+      timestamp,
     };
     try {
       const startTime = Date.now();
@@ -187,6 +219,7 @@ export class HPKVStorage {
       this.performanceMonitor.recordSyncTime(syncTime);
     } catch (error) {
       this.logger.error('Failed to store item in the database', error as Error);
+      throw error;
     }
   }
 
@@ -216,6 +249,9 @@ export class HPKVStorage {
   async destroy(): Promise<void> {
     this.isDestroyed = true;
     await this.close();
+    this.changeListeners.clear();
+    this.connectionListeners.clear();
+    this.tokenListeners.clear();
   }
 
   // ============================================================================
@@ -225,104 +261,236 @@ export class HPKVStorage {
   private async connectInternal(): Promise<void> {
     return this.retryManager.executeWithRetry(async () => {
       const token = await this.tokenManager.generateToken();
+      const client = this.createClient(token);
+      this.client = client;
 
-      this.client = HPKVClientFactory.createSubscriptionClient(token, this.options.apiBaseUrl, {
-        maxReconnectAttempts: 5,
-        maxDelayBetweenReconnects: 60000,
-        jitterMs: 1000,
-        initialDelayBetweenReconnects: 500,
-        throttling: {
-          enabled: this.options.rateLimit !== undefined,
-          rateLimit: this.options.rateLimit,
-        },
-      });
-
-      this.setupClientEventHandlers();
-      await this.client.connect();
-      this.setupSubscriptions();
+      this.setupClientEventHandlers(client);
+      try {
+        await client.connect();
+      } catch (error) {
+        // Retrying with a token the server rejected would fail again
+        if (isAuthFailure(undefined, (error as Error).message)) {
+          this.tokenManager.clear();
+        }
+        throw error;
+      }
+      this.setupSubscriptions(client);
     }, 'connectInternal');
   }
 
-  private setupClientEventHandlers(): void {
-    if (!this.client) return;
+  private createClient(token: string): HPKVSubscriptionClient {
+    return HPKVClientFactory.createSubscriptionClient(token, this.options.apiBaseUrl, {
+      maxReconnectAttempts: 5,
+      maxDelayBetweenReconnects: 60000,
+      jitterMs: 1000,
+      initialDelayBetweenReconnects: 500,
+      throttling: {
+        enabled: this.options.rateLimit !== undefined,
+        rateLimit: this.options.rateLimit,
+      },
+    });
+  }
 
+  private setupClientEventHandlers(client: HPKVSubscriptionClient): void {
+    // A client that was switched out is closed later; its events no longer apply
+    const isCurrent = (): boolean => this.client === client;
     const events = {
-      connected: () => this.notifyConnectionListeners(ConnectionState.CONNECTED),
-      disconnected: () => this.notifyConnectionListeners(ConnectionState.DISCONNECTED),
-      reconnecting: () => this.notifyConnectionListeners(ConnectionState.RECONNECTING),
-      reconnectFailed: () => this.notifyConnectionListeners(ConnectionState.DISCONNECTED),
-      error: () => {
+      connected: () => isCurrent() && this.notifyConnectionListeners(ConnectionState.CONNECTED),
+      disconnected: (details?: DisconnectDetails) => {
+        if (!isCurrent()) {
+          return;
+        }
+        this.notifyConnectionListeners(ConnectionState.DISCONNECTED);
+        if (details?.gracefully !== true && isAuthFailure(details?.code, details?.reason)) {
+          this.handleAuthFailure();
+        }
+      },
+      reconnecting: () =>
+        isCurrent() && this.notifyConnectionListeners(ConnectionState.RECONNECTING),
+      reconnectFailed: () =>
+        isCurrent() && this.notifyConnectionListeners(ConnectionState.DISCONNECTED),
+      error: (error?: Error) => {
+        if (!isCurrent()) {
+          return;
+        }
         this.notifyConnectionListeners(ConnectionState.DISCONNECTED);
+        if (isAuthFailure(undefined, error?.message)) {
+          this.handleAuthFailure();
+        }
       },
     };
 
     Object.entries(events).forEach(([event, handler]) => {
-      this.client!.on(
+      client.on(
         event as 'connected' | 'disconnected' | 'reconnecting' | 'reconnectFailed' | 'error',
         handler,
       );
     });
 
     this.cleanupCallbacks.add(() => {
-      if (this.client) {
-        Object.entries(events).forEach(([event, handler]) => {
-          this.client!.off(
-            event as 'connected' | 'disconnected' | 'reconnecting' | 'reconnectFailed' | 'error',
-            handler,
-          );
-        });
-      }
+      Object.entries(events).forEach(([event, handler]) => {
+        client.off(
+          event as 'connected' | 'disconnected' | 'reconnecting' | 'reconnectFailed' | 'error',
+          handler,
+        );
+      });
     });
   }
 
-  private setupSubscriptions(): void {
-    if (!this.client) return;
-
-    this.subscriptionId = this.client.subscribe((data: HPKVNotificationResponse) => {
-      if (!data.key || data.value === undefined) {
+  private setupSubscriptions(client: HPKVSubscriptionClient): void {
+    const subscriptionId = client.subscribe((data: HPKVNotificationResponse) => {
+      if (!data.key || data.value === undefined || this.isSwitchDuplicate(client, data)) {
         return;
       }
 
       const keyWithoutPrefix = this.keyManager.getKeyWithoutPrefix(data.key);
 
-      let actualValue: unknown = data.value;
+      let storedValue: StoredValue = { value: data.value };
       try {
         if (typeof data.value === 'string') {
-          const storedValue: StoredValue = JSON.parse(data.value) as StoredValue;
+          storedValue = JSON.parse(data.value) as StoredValue;
           if (storedValue.clientId === this.getClientId()) {
             return;
           }
-          actualValue = storedValue.value;
         }
       } catch {
-        actualValue = data.value;
+        storedValue = { value: data.value };
       }
 
       this.notifyChangeListeners({
         key: keyWithoutPrefix,
-        value: actualValue,
-        timestamp: data.timestamp,
+        value: storedValue.value,
+        timestamp: storedValue.timestamp ?? data.timestamp,
+        clientId: storedValue.clientId,
       });
     });
 
     this.cleanupCallbacks.add(() => {
-      if (this.client && this.subscriptionId) {
-        this.client.unsubscribe(this.subscriptionId);
-        this.subscriptionId = null;
-      }
+      client.unsubscribe(subscriptionId);
     });
   }
 
+  /**
+   * Refreshes the token of a connected client make-before-break: a client
+   * with the new token is connected and subscribed before the current one is
+   * closed, so listeners see neither a disconnect nor a gap in notifications.
+   */
   private async handleTokenRefresh(): Promise<void> {
-    if (this.client) {
+    if (this.connectionPromise !== null) {
+      // The connection being established uses a token that is still valid
+      return;
+    }
+    if (this.client?.getConnectionStats().connectionState !== ConnectionState.CONNECTED) {
+      await this.reconnectWithNewToken();
+      return;
+    }
+
+    try {
+      await this.switchToNewClient();
+    } catch (error) {
+      // The current client keeps working until its token expires
+      this.logger.error('Failed to switch to a connection with a new token', error as Error);
+    }
+  }
+
+  private async switchToNewClient(): Promise<void> {
+    const previousClient = this.client;
+    this.tokenManager.clear();
+    const token = await this.tokenManager.generateToken();
+    const newClient = this.createClient(token);
+    // Both connections may deliver the same notifications until the switch is done
+    this.startSwitchDeduplication();
+    try {
+      await newClient.connect();
+    } catch (error) {
+      newClient.destroy();
+      throw error;
+    }
+
+    // The store was closed or reconnected in the meantime
+    if (this.isDestroyed || previousClient === null || this.client !== previousClient) {
+      await newClient.disconnect();
+      newClient.destroy();
+      return;
+    }
+
+    const previousCleanupCallbacks = Array.from(this.cleanupCallbacks);
+    this.cleanupCallbacks.clear();
+    this.client = newClient;
+    this.setupClientEventHandlers(newClient);
+    this.setupSubscriptions(newClient);
+
+    // The previous connection keeps delivering notifications until it is closed
+    await previousClient.disconnect();
+    previousCleanupCallbacks.forEach(cleanup => cleanup());
+    previousClient.destroy();
+  }
+
+  private async reconnectWithNewToken(): Promise<void> {
+    this.tokenManager.clear();
+    if (this.client !== null) {
+      this.cleanup();
       await this.client.disconnect();
       this.client.destroy();
       this.client = null;
+      this.notifyConnectionListeners(ConnectionState.DISCONNECTED);
     }
     await this.ensureConnection();
   }
 
-  private notifyChangeListeners(event: HPKVChangeEvent): void {
+  /**
+   * While both clients are subscribed, each notification may arrive twice.
+   * Notifications are remembered for a while after the switch, as the new
+   * client may deliver them later than the previous one.
+   */
+  private startSwitchDeduplication(): void {
+    clearTimeoutSafely(this.switchNotificationsTimer);
+    this.switchNotifications = new Map();
+    this.switchNotificationsTimer = setTimeout(() => {
+      this.switchNotifications = null;
+      this.switchNotificationsTimer = null;
+    }, TOKEN_SWITCH_DEDUPLICATION_WINDOW);
+  }
+
+  private isSwitchDuplicate(
+    client: HPKVSubscriptionClient,
+    data: HPKVNotificationResponse,
+  ): boolean {
+    if (this.switchNotifications === null) {
+      return false;
+    }
+
+    const notification = `${data.key}\0${typeof data.value === 'string' ? data.value : JSON.stringify(data.value)}`;
+    const deliveredBy = this.switchNotifications.get(notification);
+    if (deliveredBy !== undefined && deliveredBy !== client) {
+      this.switchNotifications.delete(notification);
+      return true;
+    }
+    this.switchNotifications.set(notification, client);
+    return false;
+  }
+
+  /**
+   * Replaces a client whose token was rejected, instead of letting it
+   * reconnect with the same token. Failures while connecting are handled by
+   * `connectInternal`.
+   */
+  private handleAuthFailure(): void {
+    if (this.isDestroyed || this.connectionPromise !== null || this.authRefreshPromise !== null) {
+      return;
+    }
+
+    this.logger.warn('The server rejected the access token, refreshing it');
+    this.authRefreshPromise = this.reconnectWithNewToken()
+      .catch(error => {
+        this.logger.error('Failed to reconnect with a new token', error as Error);
+      })
+      .finally(() => {
+        this.authRefreshPromise = null;
+      });
+  }
+
+  private notifyChangeListeners(event: StorageChangeEvent): void {
     this.changeListeners.forEach(listener => {
       listener(event);
     });
@@ -334,10 +502,15 @@ export class HPKVStorage {
     });
   }
 
+  /**
+   * Releases resources bound to the current client. Listeners are kept so the
+   * store keeps receiving events after reconnecting.
+   */
   private cleanup(): void {
     this.cleanupCallbacks.forEach(cleanup => cleanup());
     this.cleanupCallbacks.clear();
-    this.changeListeners.clear();
-    this.connectionListeners.clear();
+    clearTimeoutSafely(this.switchNotificationsTimer);
+    this.switchNotificationsTimer = null;
+    this.switchNotifications = null;
   }
 }
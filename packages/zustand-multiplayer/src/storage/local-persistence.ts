@@ -0,0 +1,136 @@
+/**
+ * Key-value backend used to keep the store's last-known state and offline
+ * outbox on the local device
+ */
+export interface LocalPersistenceBackend {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Minimal subset of the Web Storage API used by the localStorage backend
+ */
+export interface WebStorageLike {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+// Minimal structural types for the parts of IndexedDB used below, so the
+// package does not depend on the DOM type library.
+interface IDBRequestLike<T> {
+  result: T;
+  error: unknown;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+interface IDBOpenRequestLike extends IDBRequestLike<IDBDatabaseLike> {
+  onupgradeneeded: (() => void) | null;
+}
+
+interface IDBObjectStoreLike {
+  get(key: string): IDBRequestLike<unknown>;
+  put(value: string, key: string): IDBRequestLike<unknown>;
+  delete(key: string): IDBRequestLike<unknown>;
+}
+
+interface IDBDatabaseLike {
+  objectStoreNames: { contains(name: string): boolean };
+  createObjectStore(name: string): unknown;
+  transaction(
+    storeName: string,
+    mode: 'readonly' | 'readwrite',
+  ): {
+    objectStore(name: string): IDBObjectStoreLike;
+  };
+}
+
+export interface IDBFactoryLike {
+  open(name: string, version?: number): IDBOpenRequestLike;
+}
+
+function requestToPromise<T>(request: IDBRequestLike<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error as Error);
+  });
+}
+
+/**
+ * Creates a backend that stores data in `localStorage` (or another Web Storage object)
+ */
+export function createLocalStorageBackend(storage?: WebStorageLike): LocalPersistenceBackend {
+  const resolveStorage = (): WebStorageLike => {
+    const webStorage =
+      storage ?? (globalThis as { localStorage?: WebStorageLike }).localStorage ?? null;
+    if (webStorage === null) {
+      throw new Error('localStorage is not available in this environment');
+    }
+    return webStorage;
+  };
+
+  return {
+    getItem: key => Promise.resolve(resolveStorage().getItem(key)),
+    setItem: (key, value) => Promise.resolve(resolveStorage().setItem(key, value)),
+    removeItem: key => Promise.resolve(resolveStorage().removeItem(key)),
+  };
+}
+
+/**
+ * Creates a backend that stores data in an IndexedDB object store
+ *
+ * @param databaseName Name of the IndexedDB database
+ * @param storeName Name of the object store inside the database
+ * @param factory IndexedDB factory (defaults to the global `indexedDB`)
+ */
+export function createIndexedDBBackend(
+  databaseName = 'zustand-multiplayer',
+  storeName = 'state',
+  factory?: IDBFactoryLike,
+): LocalPersistenceBackend {
+  let databasePromise: Promise<IDBDatabaseLike> | null = null;
+
+  const openDatabase = (): Promise<IDBDatabaseLike> => {
+    if (databasePromise !== null) {
+      return databasePromise;
+    }
+
+    const idb = factory ?? (globalThis as { indexedDB?: IDBFactoryLike }).indexedDB ?? null;
+    if (idb === null) {
+      return Promise.reject(new Error('IndexedDB is not available in this environment'));
+    }
+
+    const request = idb.open(databaseName, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+    databasePromise = requestToPromise(request);
+    return databasePromise;
+  };
+
+  const withStore = async <T>(
+    mode: 'readonly' | 'readwrite',
+    operation: (store: IDBObjectStoreLike) => IDBRequestLike<T>,
+  ): Promise<T> => {
+    const database = await openDatabase();
+    const store = database.transaction(storeName, mode).objectStore(storeName);
+    return requestToPromise(operation(store));
+  };
+
+  return {
+    getItem: async key => {
+      const value = await withStore('readonly', store => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: async (key, value) => {
+      await withStore('readwrite', store => store.put(value, key));
+    },
+    removeItem: async key => {
+      await withStore('readwrite', store => store.delete(key));
+    },
+  };
+}
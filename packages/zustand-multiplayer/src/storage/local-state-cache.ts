@@ -0,0 +1,70 @@
+import type { PendingChange } from '../core/offline-queue';
+import type { Logger } from '../monitoring/logger';
+import type { LocalPersistenceBackend } from './local-persistence';
+import type { Serializer } from './serializer';
+import { jsonSerializer } from './serializer';
+import type { StorageKeyManager } from './storage-key-manager';
+
+/**
+ * Snapshot of a store persisted on the local device
+ */
+export interface LocalSnapshot {
+  /** Last-known values keyed by the same storage keys used remotely */
+  items: Record<string, unknown>;
+  /** Offline outbox in replay order */
+  pendingChanges: PendingChange[];
+  savedAt: number;
+}
+
+/**
+ * Reads and writes store snapshots through a local persistence backend.
+ * A single record is kept per namespace (including the zFactor suffix), so
+ * stores with different storage layouts never share a snapshot.
+ */
+export class LocalStateCache {
+  private readonly snapshotKey: string;
+
+  constructor(
+    private readonly backend: LocalPersistenceBackend,
+    keyManager: StorageKeyManager,
+    private readonly logger: Logger,
+    private readonly serializer: Serializer = jsonSerializer,
+  ) {
+    this.snapshotKey = keyManager.getNamespace();
+  }
+
+  async load(): Promise<LocalSnapshot | null> {
+    const raw = await this.backend.getItem(this.snapshotKey);
+    if (raw === null) {
+      return null;
+    }
+
+    try {
+      const snapshot = this.serializer.deserialize(JSON.parse(raw)) as Partial<LocalSnapshot>;
+      return {
+        items: snapshot.items ?? {},
+        pendingChanges: snapshot.pendingChanges ?? [],
+        savedAt: snapshot.savedAt ?? 0,
+      };
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable local snapshot: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  async save(items: Map<string, unknown>, pendingChanges: PendingChange[]): Promise<void> {
+    const snapshot: LocalSnapshot = {
+      items: Object.fromEntries(items),
+      pendingChanges,
+      savedAt: Date.now(),
+    };
+    await this.backend.setItem(
+      this.snapshotKey,
+      JSON.stringify(this.serializer.serialize(snapshot)),
+    );
+  }
+
+  async clear(): Promise<void> {
+    await this.backend.removeItem(this.snapshotKey);
+  }
+}
@@ -0,0 +1,347 @@
+import type { ConnectionStats } from '@hpkv/websocket-client';
+import { ConnectionState } from '@hpkv/websocket-client';
+import type { Logger } from '../monitoring/logger';
+import type { PerformanceMonitor } from '../monitoring/profiler';
+import { applyMergePatch, createDelay, escapeRegExp, generateClientId } from '../utils';
+import type {
+  StorageAdapter,
+  StorageAdapterContext,
+  StorageAdapterFactory,
+  StorageChangeEvent,
+  StorageChangeListener,
+  StorageConnectionListener,
+  StoredValue,
+} from './storage-adapter';
+import { StorageKeyManager } from './storage-key-manager';
+
+export interface MemoryStorageRecord {
+  key: string;
+  value: string;
+}
+
+export interface MemoryStorageNotification {
+  key: string;
+  /** Raw stored value, or null if the key was deleted */
+  value: string | null;
+  timestamp: number;
+}
+
+export interface MemoryStorageServerOptions {
+  /** Delay in milliseconds before change notifications are delivered (default: 0) */
+  latency?: number;
+  /** Maximum number of records returned by a single range query (default: 100) */
+  rangeLimit?: number;
+}
+
+type MemoryStorageSubscriber = (notification: MemoryStorageNotification) => void;
+
+/**
+ * In-process stand-in for the HPKV server. Multiple stores attached to the same
+ * server instance behave like clients connected to the same HPKV project.
+ */
+export class MemoryStorageServer {
+  private readonly records = new Map<string, string>();
+  private readonly subscriptions = new Map<MemoryStorageSubscriber, RegExp[]>();
+  private readonly latency: number;
+  private readonly rangeLimit: number;
+
+  constructor(options: MemoryStorageServerOptions = {}) {
+    this.latency = options.latency ?? 0;
+    this.rangeLimit = options.rangeLimit ?? 100;
+  }
+
+  get(key: string): string | undefined {
+    return this.records.get(key);
+  }
+
+  /**
+   * Stores a value. With `partialUpdate` the value is JSON merge-patched into the
+   * existing record (null removes a property), matching HPKV patch semantics.
+   * Subscribers are notified with the value as written, not the merged record.
+   */
+  set(key: string, value: string, partialUpdate = false): void {
+    const existing = this.records.get(key);
+    const storedValue =
+      partialUpdate && existing !== undefined ? this.mergePatch(existing, value) : value;
+
+    this.records.set(key, storedValue);
+    this.publish({ key, value, timestamp: Date.now() });
+  }
+
+  delete(key: string): boolean {
+    if (!this.records.delete(key)) {
+      return false;
+    }
+    this.publish({ key, value: null, timestamp: Date.now() });
+    return true;
+  }
+
+  /**
+   * Returns records with keys in [start, end] in lexicographic order.
+   * Results are truncated to the configured range limit like HPKV range queries.
+   */
+  range(start: string, end: string): { records: MemoryStorageRecord[]; truncated: boolean } {
+    const records = Array.from(this.records, ([key, value]) => ({ key, value }))
+      .filter(record => record.key >= start && record.key <= end)
+      .sort((a, b) => (a.key < b.key ? -1 : 1));
+
+    return {
+      records: records.slice(0, this.rangeLimit),
+      truncated: records.length > this.rangeLimit,
+    };
+  }
+
+  /**
+   * Subscribes to changes of keys matching any of the given patterns.
+   * Patterns follow HPKV subscription syntax where `*` matches any suffix.
+   */
+  subscribe(patterns: string[], subscriber: MemoryStorageSubscriber): () => void {
+    const matchers = patterns.map(
+      pattern => new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`),
+    );
+    this.subscriptions.set(subscriber, matchers);
+    return () => this.subscriptions.delete(subscriber);
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  /**
+   * Removes all records and subscriptions
+   */
+  reset(): void {
+    this.records.clear();
+    this.subscriptions.clear();
+  }
+
+  private mergePatch(existing: string, patch: string): string {
+    try {
+      return JSON.stringify(
+        applyMergePatch(JSON.parse(existing) as unknown, JSON.parse(patch) as unknown),
+      );
+    } catch {
+      return patch;
+    }
+  }
+
+  private publish(notification: MemoryStorageNotification): void {
+    for (const [subscriber, matchers] of this.subscriptions) {
+      if (matchers.some(matcher => matcher.test(notification.key))) {
+        setTimeout(() => {
+          if (this.subscriptions.has(subscriber)) {
+            subscriber(notification);
+          }
+        }, this.latency);
+      }
+    }
+  }
+}
+
+/**
+ * Storage adapter backed by a shared in-memory server.
+ * Mirrors the behaviour of HPKVStorage without network access, which makes it
+ * suitable for tests, local development and simulating several clients.
+ */
+export class MemoryStorage implements StorageAdapter {
+  private readonly changeListeners = new Set<StorageChangeListener>();
+  private readonly connectionListeners = new Set<StorageConnectionListener>();
+  private readonly clientId: string;
+  private readonly keyManager: StorageKeyManager;
+  private readonly subscribedKeys: string[];
+  private readonly logger: Logger;
+  private readonly performanceMonitor: PerformanceMonitor;
+  private connectionState = ConnectionState.DISCONNECTED;
+  private connectionPromise: Promise<void> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private isDestroyed = false;
+
+  constructor(
+    private readonly server: MemoryStorageServer,
+    context: StorageAdapterContext,
+  ) {
+    this.clientId = generateClientId();
+    this.keyManager = new StorageKeyManager(context.namespace, context.zFactor);
+    this.subscribedKeys = context.subscribedKeys;
+    this.logger = context.logger;
+    this.performanceMonitor = context.performanceMonitor;
+  }
+
+  // ============================================================================
+  // PUBLIC API
+  // ============================================================================
+
+  getClientId(): string {
+    return this.clientId;
+  }
+
+  addChangeListener(listener: StorageChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  addConnectionListener(listener: StorageConnectionListener): () => void {
+    this.connectionListeners.add(listener);
+    return () => this.connectionListeners.delete(listener);
+  }
+
+  async ensureConnection(): Promise<void> {
+    if (this.isDestroyed) {
+      throw new Error('Client has been destroyed');
+    }
+
+    if (this.connectionPromise !== null) {
+      return this.connectionPromise;
+    }
+
+    if (this.connectionState === ConnectionState.CONNECTED) {
+      return;
+    }
+
+    this.connectionPromise = this.connectInternal().finally(() => {
+      this.connectionPromise = null;
+    });
+
+    return this.connectionPromise;
+  }
+
+  getConnectionStatus(): ConnectionStats | null {
+    return {
+      isConnected: this.connectionState === ConnectionState.CONNECTED,
+      connectionState: this.connectionState,
+      reconnectAttempts: 0,
+      messagesPending: 0,
+    };
+  }
+
+  async getAllItems(): Promise<Map<string, StoredValue>> {
+    await this.ensureConnection();
+
+    const result = new Map<string, StoredValue>();
+    const namespaceRange = this.keyManager.getNamespaceRange();
+    let startKey = namespaceRange.start;
+    let hasMore = true;
+
+    while (hasMore) {
+      const response = this.server.range(startKey, namespaceRange.end);
+
+      for (const record of response.records) {
+        try {
+          const storedValue: StoredValue = JSON.parse(record.value) as StoredValue;
+          result.set(record.key, storedValue);
+        } catch {
+          result.set(record.key, { value: record.value });
+        }
+      }
+
+      if (response.truncated && response.records.length > 0) {
+        const lastRecord = response.records[response.records.length - 1];
+        startKey = `${lastRecord.key}\0`;
+      } else {
+        hasMore = false;
+      }
+    }
+
+    return result;
+  }
+
+  async setItem(key: string, value: unknown, timestamp = Date.now()): Promise<void> {
+    await this.ensureConnection();
+
+    const storedValue: StoredValue = {
+      value,
+      clientId: this.clientId,
+      timestamp,
+    };
+    const startTime = Date.now();
+    this.server.set(key, JSON.stringify(storedValue), true);
+    this.performanceMonitor.recordSyncTime(Date.now() - startTime);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.ensureConnection();
+
+    if (!this.server.delete(key)) {
+      throw new Error('Failed to remove item: 404');
+    }
+  }
+
+  async clear(): Promise<void> {
+    const items = await this.getAllItems();
+    const removePromises = Array.from(items.keys()).map(key => this.removeItem(key));
+    await Promise.all(removePromises);
+  }
+
+  close(): Promise<void> {
+    if (this.unsubscribe !== null) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    if (this.connectionState !== ConnectionState.DISCONNECTED) {
+      this.setConnectionState(ConnectionState.DISCONNECTED);
+    }
+    return Promise.resolve();
+  }
+
+  async destroy(): Promise<void> {
+    this.isDestroyed = true;
+    await this.close();
+    this.changeListeners.clear();
+    this.connectionListeners.clear();
+  }
+
+  // ============================================================================
+  // PRIVATE METHODS
+  // ============================================================================
+
+  private async connectInternal(): Promise<void> {
+    // Complete the "handshake" asynchronously, as a real connection would
+    await createDelay(0);
+
+    const patterns = this.subscribedKeys.map(key => this.keyManager.getFullKey(key));
+    this.unsubscribe = this.server.subscribe(patterns, notification =>
+      this.handleNotification(notification),
+    );
+    this.setConnectionState(ConnectionState.CONNECTED);
+  }
+
+  private handleNotification(notification: MemoryStorageNotification): void {
+    let storedValue: StoredValue = { value: notification.value };
+    try {
+      if (typeof notification.value === 'string') {
+        storedValue = JSON.parse(notification.value) as StoredValue;
+        if (storedValue.clientId === this.clientId) {
+          return;
+        }
+      }
+    } catch {
+      storedValue = { value: notification.value };
+    }
+
+    this.logger.debug(`Memory storage notification for '${notification.key}'`, {
+      clientId: this.clientId,
+    });
+
+    const event: StorageChangeEvent = {
+      key: this.keyManager.getKeyWithoutPrefix(notification.key),
+      value: storedValue.value,
+      timestamp: storedValue.timestamp ?? notification.timestamp,
+      clientId: storedValue.clientId,
+    };
+    this.changeListeners.forEach(listener => listener(event));
+  }
+
+  private setConnectionState(state: ConnectionState): void {
+    this.connectionState = state;
+    this.connectionListeners.forEach(listener => listener(state));
+  }
+}
+
+/**
+ * Creates a storage adapter factory that attaches stores to the given in-memory server
+ *
+ * @param server Shared server instance; stores using the same server see each other's changes
+ */
+export function createMemoryStorage(server: MemoryStorageServer): StorageAdapterFactory {
+  return context => new MemoryStorage(server, context);
+}
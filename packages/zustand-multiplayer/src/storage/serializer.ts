@@ -0,0 +1,189 @@
+import { isPlainObject } from '../utils';
+
+/**
+ * Converts state values to and from JSON-compatible data for storage. Values
+ * are serialized both as a whole and as JSON merge patches, so plain objects
+ * and null must be kept as they are.
+ */
+export interface Serializer {
+  serialize(value: unknown): unknown;
+  deserialize(value: unknown): unknown;
+}
+
+type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+const NUMBER_ARRAYS = new Map<string, new (items: number[]) => TypedArray>([
+  ['Int8Array', Int8Array],
+  ['Uint8Array', Uint8Array],
+  ['Uint8ClampedArray', Uint8ClampedArray],
+  ['Int16Array', Int16Array],
+  ['Uint16Array', Uint16Array],
+  ['Int32Array', Int32Array],
+  ['Uint32Array', Uint32Array],
+  ['Float32Array', Float32Array],
+  ['Float64Array', Float64Array],
+]);
+
+const BIGINT_ARRAYS = new Map<string, new (items: bigint[]) => TypedArray>([
+  ['BigInt64Array', BigInt64Array],
+  ['BigUint64Array', BigUint64Array],
+]);
+
+const TAG_PREFIX = '~';
+
+/**
+ * Tagged values are stored as `[tag, payload]` arrays. Merge patches replace
+ * arrays as a whole, so a tagged value never mixes with the one it replaces.
+ */
+function tag(type: string, payload?: unknown): unknown[] {
+  return payload === undefined ? [`${TAG_PREFIX}${type}`] : [`${TAG_PREFIX}${type}`, payload];
+}
+
+function isTaggedValue(value: unknown[]): boolean {
+  return (
+    (value.length === 1 || value.length === 2) &&
+    typeof value[0] === 'string' &&
+    value[0].startsWith(TAG_PREFIX)
+  );
+}
+
+function serializeValue(value: unknown): unknown {
+  switch (typeof value) {
+    case 'undefined':
+      return tag('undefined');
+    case 'bigint':
+      return tag('BigInt', value.toString());
+    case 'number':
+      return Number.isFinite(value) ? value : tag('Number', String(value));
+    case 'object':
+      break;
+    default:
+      return value;
+  }
+
+  if (value === null) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(serializeValue);
+    // Arrays that look like tagged values are tagged themselves
+    return isTaggedValue(items) ? tag('Array', items) : items;
+  }
+  if (value instanceof Date) {
+    return tag('Date', value.toISOString());
+  }
+  if (value instanceof Map) {
+    return tag(
+      'Map',
+      Array.from(value, ([key, item]) => [serializeValue(key), serializeValue(item)]),
+    );
+  }
+  if (value instanceof Set) {
+    return tag('Set', Array.from(value, serializeValue));
+  }
+  if (ArrayBuffer.isView(value)) {
+    const type = value.constructor.name;
+    if (NUMBER_ARRAYS.has(type)) {
+      return tag(type, Array.from(value as unknown as ArrayLike<number>));
+    }
+    if (BIGINT_ARRAYS.has(type)) {
+      return tag(
+        type,
+        Array.from(value as unknown as ArrayLike<bigint>, item => item.toString()),
+      );
+    }
+  }
+
+  const object = value as Record<string, unknown> & { toJSON?: () => unknown };
+  if (!isPlainObject(value) && typeof object.toJSON === 'function') {
+    return serializeValue(object.toJSON());
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(object)) {
+    if (typeof item !== 'function' && typeof item !== 'symbol') {
+      result[key] = serializeValue(item);
+    }
+  }
+  return result;
+}
+
+function deserializeValue(value: unknown): unknown {
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = deserializeValue(item);
+    }
+    return result;
+  }
+  if (!Array.isArray(value)) {
+    return value;
+  }
+  if (!isTaggedValue(value)) {
+    return value.map(deserializeValue);
+  }
+
+  const [tagName, payload] = value as [string, unknown];
+  const type = tagName.slice(TAG_PREFIX.length);
+  switch (type) {
+    case 'undefined':
+      return undefined;
+    case 'BigInt':
+      return BigInt(payload as string);
+    case 'Number':
+      return Number(payload);
+    case 'Date':
+      return new Date(payload as string);
+    case 'Map':
+      return new Map(
+        (payload as Array<[unknown, unknown]>).map(([key, item]) => [
+          deserializeValue(key),
+          deserializeValue(item),
+        ]),
+      );
+    case 'Set':
+      return new Set((payload as unknown[]).map(deserializeValue));
+    case 'Array':
+      return (payload as unknown[]).map(deserializeValue);
+  }
+
+  const NumberArray = NUMBER_ARRAYS.get(type);
+  if (NumberArray !== undefined) {
+    return new NumberArray(payload as number[]);
+  }
+  const BigIntArray = BIGINT_ARRAYS.get(type);
+  if (BigIntArray !== undefined) {
+    return new BigIntArray((payload as string[]).map(item => BigInt(item)));
+  }
+
+  // Unknown tags are kept as they are, e.g. arrays written without this serializer
+  return value.map(deserializeValue);
+}
+
+/**
+ * Serializer that keeps JSON values as they are and stores Date, Map, Set,
+ * BigInt, undefined, non-finite numbers and typed arrays as tagged arrays
+ * (e.g. `["~Date", "2024-01-01T00:00:00.000Z"]`).
+ */
+export const taggedJsonSerializer: Serializer = {
+  serialize: serializeValue,
+  deserialize: deserializeValue,
+};
+
+/**
+ * Serializer that leaves values as they are, for values that are JSON already
+ */
+export const jsonSerializer: Serializer = {
+  serialize: value => value,
+  deserialize: value => value,
+};
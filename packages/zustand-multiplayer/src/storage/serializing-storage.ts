@@ -0,0 +1,76 @@
+import type { ConnectionStats } from '@hpkv/websocket-client';
+import type { Serializer } from './serializer';
+import type {
+  StorageAdapter,
+  StorageChangeListener,
+  StorageConnectionListener,
+  StorageTokenListener,
+  StoredValue,
+} from './storage-adapter';
+
+/**
+ * Storage adapter that serializes values before they are passed to another
+ * adapter and deserializes the values it returns and notifies about, so
+ * adapters only ever handle JSON-compatible values.
+ */
+export class SerializingStorage implements StorageAdapter {
+  readonly addTokenListener?: (listener: StorageTokenListener) => () => void;
+
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly serializer: Serializer,
+  ) {
+    this.addTokenListener = storage.addTokenListener?.bind(storage);
+  }
+
+  getClientId(): string {
+    return this.storage.getClientId();
+  }
+
+  addChangeListener(listener: StorageChangeListener): () => void {
+    return this.storage.addChangeListener(event =>
+      listener({ ...event, value: this.serializer.deserialize(event.value) }),
+    );
+  }
+
+  addConnectionListener(listener: StorageConnectionListener): () => void {
+    return this.storage.addConnectionListener(listener);
+  }
+
+  ensureConnection(): Promise<void> {
+    return this.storage.ensureConnection();
+  }
+
+  getConnectionStatus(): ConnectionStats | null {
+    return this.storage.getConnectionStatus();
+  }
+
+  async getAllItems(): Promise<Map<string, StoredValue>> {
+    const items = await this.storage.getAllItems();
+    const result = new Map<string, StoredValue>();
+    for (const [key, storedValue] of items) {
+      result.set(key, { ...storedValue, value: this.serializer.deserialize(storedValue.value) });
+    }
+    return result;
+  }
+
+  setItem(key: string, value: unknown, timestamp?: number): Promise<void> {
+    return this.storage.setItem(key, this.serializer.serialize(value), timestamp);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.storage.removeItem(key);
+  }
+
+  clear(): Promise<void> {
+    return this.storage.clear();
+  }
+
+  close(): Promise<void> {
+    return this.storage.close();
+  }
+
+  destroy(): Promise<void> {
+    return this.storage.destroy();
+  }
+}
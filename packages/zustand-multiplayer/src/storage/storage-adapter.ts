@@ -0,0 +1,60 @@
+import type { ConnectionState, ConnectionStats } from '@hpkv/websocket-client';
+import type { TokenPermissions } from '../auth/token-helper';
+import type { Logger } from '../monitoring/logger';
+import type { PerformanceMonitor } from '../monitoring/profiler';
+
+export interface StorageChangeEvent {
+  key: string;
+  value: unknown;
+  /** Time the change was written, as recorded by the writer (or the server for deletions) */
+  timestamp?: number;
+  /** Client that wrote the change, if known */
+  clientId?: string;
+}
+
+export type StorageChangeListener = (event: StorageChangeEvent) => void;
+export type StorageConnectionListener = (connectionState: ConnectionState) => void;
+/** Called with the expiry time and permissions of each access token the adapter obtains */
+export type StorageTokenListener = (expiresAt: number, permissions?: TokenPermissions) => void;
+
+export interface StoredValue {
+  value: unknown;
+  clientId?: string;
+  timestamp?: number;
+}
+
+/**
+ * Contract between the Orchestrator and the transport/back-end that persists
+ * and broadcasts state. Keys passed to `setItem` and `removeItem` are fully
+ * namespaced storage keys produced by `StorageKeyManager`.
+ */
+export interface StorageAdapter {
+  getClientId(): string;
+  addChangeListener(listener: StorageChangeListener): () => void;
+  addConnectionListener(listener: StorageConnectionListener): () => void;
+  /** Only implemented by adapters that authenticate with expiring tokens */
+  addTokenListener?(listener: StorageTokenListener): () => void;
+  ensureConnection(): Promise<void>;
+  getConnectionStatus(): ConnectionStats | null;
+  getAllItems(): Promise<Map<string, StoredValue>>;
+  /** Stores a value; `timestamp` (default: now) is recorded as the version of the write */
+  setItem(key: string, value: unknown, timestamp?: number): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  clear(): Promise<void>;
+  close(): Promise<void>;
+  destroy(): Promise<void>;
+}
+
+/**
+ * Everything a storage adapter needs to know about the store it serves
+ */
+export interface StorageAdapterContext {
+  namespace: string;
+  zFactor?: number;
+  /** Keys and patterns (without namespace prefix) the store is interested in */
+  subscribedKeys: string[];
+  logger: Logger;
+  performanceMonitor: PerformanceMonitor;
+}
+
+export type StorageAdapterFactory = (context: StorageAdapterContext) => StorageAdapter;
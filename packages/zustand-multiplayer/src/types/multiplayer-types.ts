@@ -1,23 +1,149 @@
 import type { ConnectionState, ConnectionStats } from '@hpkv/websocket-client';
 import type { StoreApi } from 'zustand';
+import type { TokenPermissions, TokenProvider, TokenRequestInit } from '../auth/token-helper';
+import type { PendingChange } from '../core/offline-queue';
+import type { PresenceEntry, PresenceOptions } from '../core/presence-manager';
+import type { FieldSchema, SchemaPolicy } from '../core/schema-validator';
+import type { SyncStatus } from '../core/sync-tracker';
+import type { UndoOptions } from '../core/undo-manager';
+import type { KeyMetadata } from '../core/version-tracker';
+import type { BatchingOptions } from '../core/write-batcher';
+import type { FieldType } from '../crdt/field-types';
+import type { TextOperation } from '../crdt/text-field';
 import type { LogLevel } from '../monitoring/logger';
 import type { PerformanceMetrics } from '../monitoring/profiler';
+import type { CompressionOptions } from '../storage/compressing-storage';
+import type { EncryptionOptions } from '../storage/encrypting-storage';
+import type { LocalPersistenceBackend } from '../storage/local-persistence';
+import type { Serializer } from '../storage/serializer';
+import type { StorageAdapterFactory } from '../storage/storage-adapter';
+
+/**
+ * Context passed to a conflict resolver
+ */
+export interface ConflictResolutionMeta {
+  /** Sync field the changed value belongs to */
+  field: string;
+  /** State path of the changed value (unencoded segments, starting with the field) */
+  path: string[];
+  /** Fully namespaced storage key of the changed value */
+  key: string;
+  /** Version of the local value, or null if unknown */
+  localVersion: KeyMetadata | null;
+  /** Version of the incoming remote value, or null if the change is not timestamped */
+  remoteVersion: KeyMetadata | null;
+}
+
+/**
+ * Merges a value received from another client with the local one. Receives the
+ * complete local and remote values at the changed path (undefined if absent) and
+ * returns the value to keep; returning undefined deletes it.
+ */
+export type ConflictResolver = (
+  local: unknown,
+  remote: unknown,
+  meta: ConflictResolutionMeta,
+) => unknown;
+
+/**
+ * A remote change that competed with the local value: either it was older and
+ * discarded (`resolved` is the local value), or a conflict resolver merged it
+ */
+export interface ConflictEvent {
+  /** Changed path (unencoded segments) */
+  path: string[];
+  local: unknown;
+  remote: unknown;
+  resolved: unknown;
+  localVersion: KeyMetadata | null;
+  remoteVersion: KeyMetadata | null;
+}
+
+/**
+ * Sync lifecycle events and their payloads, see `multiplayer.on()`
+ */
+export interface MultiplayerEvents {
+  /** A change of another client was applied; `value` is undefined for deletions */
+  remoteChange: { path: string[]; value: unknown; clientId?: string };
+  /** A local change was written to remote storage */
+  localSync: { path: string[]; operation: 'set' | 'remove' };
+  /** Writing a local change failed while connected; it will not be retried */
+  syncError: { path: string[]; error: Error };
+  /** The store was hydrated from remote storage */
+  hydrated: undefined;
+  connectionChange: { state: ConnectionState };
+  /** A new access token was obtained, on connect and before the previous one expires */
+  tokenRefreshed: { expiresAt: number; permissions?: TokenPermissions };
+  conflict: ConflictEvent;
+  /** Remote data failed validation against the schema of its field */
+  validationError: { field: string; value: unknown; issues: string[]; policy: SchemaPolicy };
+}
 
 export interface MultiplayerOptions<TState> {
   namespace: string;
-  apiBaseUrl: string;
+  /** HPKV API base URL. Required unless a custom `storage` adapter is provided */
+  apiBaseUrl?: string;
   apiKey?: string;
   tokenGenerationUrl?: string;
+  /** Obtains tokens instead of `apiKey` or `tokenGenerationUrl`, e.g. through an existing auth stack */
+  getToken?: TokenProvider;
+  /** Fetch options (headers, credentials, ...) for requests to `tokenGenerationUrl` */
+  tokenRequestInit?: TokenRequestInit;
   sync?: Array<keyof TState>;
   logLevel?: LogLevel;
   rateLimit?: number;
   zFactor?: number;
+  /** Factory for the storage adapter used to persist and broadcast state (default: HPKV) */
+  storage?: StorageAdapterFactory;
+  /**
+   * Converts values to and from JSON for storage (default: `jsonSerializer`). All clients
+   * of a namespace must use the same serializer, e.g. `taggedJsonSerializer` for rich types
+   */
+  serializer?: Serializer;
+  /**
+   * Encrypts synced values with AES-GCM keys that only clients know. Encrypted values
+   * are written whole, so concurrent edits to different properties of the same storage
+   * key overwrite each other instead of merging
+   */
+  encryption?: EncryptionOptions;
+  /**
+   * Compresses large values before they are stored. Compressed values are written whole,
+   * so concurrent edits to different properties of the same storage key overwrite each other
+   */
+  compression?: CompressionOptions;
+  /** Backend used to keep last-known state and unsynced changes on the device */
+  localPersistence?: LocalPersistenceBackend;
+  /** Custom merge logic per sync field, replacing last-writer-wins for remote changes */
+  conflictResolvers?: Partial<Record<keyof TState | (string & {}), ConflictResolver>>;
+  /** CRDT types for sync fields that need to merge concurrent updates, e.g. `counter()` */
+  fieldTypes?: Partial<Record<keyof TState | (string & {}), FieldType>>;
+  /** Heartbeat and expiry settings of the presence channel */
+  presence?: PresenceOptions;
+  /** Which local changes can be undone and how many undo steps are kept */
+  undo?: UndoOptions<TState>;
+  /** Write the changes of every `set` as a transaction, so other clients apply them at once */
+  atomicUpdates?: boolean;
+  /** Hold local writes for a short window and coalesce them per storage key */
+  batching?: BatchingOptions<TState>;
+  /** Validators for the values of sync fields received from other clients */
+  schema?: Partial<Record<keyof TState | (string & {}), FieldSchema>>;
+  /** What happens to remote data that fails validation (default: 'reject') */
+  schemaPolicy?: SchemaPolicy;
+  /** Version of the stored state shape; increase it when the shape changes (default: 0) */
+  version?: number;
+  /**
+   * Migrates stored state written with an older `version` during hydration.
+   * Returns the migrated state object, or a promise of it.
+   */
+  migrate?: (oldState: unknown, fromVersion: number) => unknown;
 }
 
 export interface MultiplayerState {
   connectionState: ConnectionState;
   hasHydrated: boolean;
   performanceMetrics: PerformanceMetrics;
+  /** Number of storage keys with local changes that are not written yet */
+  pendingWrites: number;
 }
 
 export type MultiplayerStoreApi<S> = StoreApi<S> & {
@@ -29,6 +155,36 @@ export type MultiplayerStoreApi<S> = StoreApi<S> & {
     destroy: () => Promise<void>;
     getConnectionStatus: () => ConnectionStats | null;
     getMetrics: () => PerformanceMetrics;
+    getPendingChanges: () => PendingChange[];
+    getKeyMetadata: (path: string | string[]) => KeyMetadata | null;
+    editText: (field: keyof S & string, operations: TextOperation[]) => Promise<void>;
+    presence: {
+      set: (data: unknown) => Promise<void>;
+      clear: () => Promise<void>;
+      getAll: <TPresence = unknown>() => PresenceEntry<TPresence>[];
+    };
+    undo: () => Promise<boolean>;
+    redo: () => Promise<boolean>;
+    canUndo: () => boolean;
+    canRedo: () => boolean;
+    groupUndo: (fn: () => void) => void;
+    transaction: (fn: () => void) => Promise<void>;
+    flush: () => Promise<void>;
+    // Bivariant like zustand's setState, so stores stay assignable to wider store types
+    setAndSync: {
+      _(
+        partial: S | Partial<S> | { _(state: S): S | Partial<S> }['_'],
+        replace?: false,
+      ): Promise<void>;
+    }['_'];
+    getSyncStatus: (path: string | string[]) => SyncStatus;
+    on: <K extends keyof MultiplayerEvents>(
+      event: K,
+      handler: (payload: MultiplayerEvents[K]) => void,
+    ) => () => void;
+    onPresenceChange: <TPresence = unknown>(
+      listener: (entries: PresenceEntry<TPresence>[]) => void,
+    ) => () => void;
   };
 };
 
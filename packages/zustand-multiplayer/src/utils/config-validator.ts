@@ -1,5 +1,11 @@
 import type { MultiplayerOptions } from '../types/multiplayer-types';
-import { MIN_Z_FACTOR, MAX_Z_FACTOR, DEFAULT_Z_FACTOR } from './constants';
+import {
+  MIN_Z_FACTOR,
+  MAX_Z_FACTOR,
+  DEFAULT_Z_FACTOR,
+  DEFAULT_PRESENCE_HEARTBEAT_INTERVAL,
+  DEFAULT_PRESENCE_TIMEOUT,
+} from './constants';
 import { normalizeError } from '.';
 
 // ============================================================================
@@ -19,8 +25,21 @@ export interface ValidationResult {
  * Validates that required authentication options are provided
  */
 export function validateAuthenticationOptions<T>(options: MultiplayerOptions<T>): void {
-  if (!options.apiKey && !options.tokenGenerationUrl) {
-    throw new Error('Either apiKey or tokenGenerationUrl must be provided for authentication');
+  if (options.getToken !== undefined && typeof options.getToken !== 'function') {
+    throw new Error('getToken must be a function that returns a token');
+  }
+  if (
+    options.tokenRequestInit !== undefined &&
+    (options.tokenRequestInit === null ||
+      (typeof options.tokenRequestInit !== 'object' &&
+        typeof options.tokenRequestInit !== 'function'))
+  ) {
+    throw new Error('tokenRequestInit must be an object or a function that returns one');
+  }
+  if (!options.apiKey && !options.tokenGenerationUrl && options.getToken === undefined) {
+    throw new Error(
+      'Either apiKey or tokenGenerationUrl must be provided for authentication, unless getToken is set',
+    );
   }
 }
 
@@ -45,8 +64,8 @@ export function validateNamespace(namespace: string): void {
 /**
  * Validates API base URL
  */
-export function validateApiBaseUrl(apiBaseUrl: string): void {
-  if (!apiBaseUrl || typeof apiBaseUrl !== 'string') {
+export function validateApiBaseUrl(apiBaseUrl?: string): void {
+  if (typeof apiBaseUrl !== 'string' || apiBaseUrl === '') {
     throw new Error('API base URL must be a non-empty string');
   }
 
@@ -88,6 +107,308 @@ export function validateSyncArray<T>(sync?: Array<keyof T>): void {
   }
 }
 
+/**
+ * Validates the custom storage adapter factory option
+ */
+export function validateStorage<T>(storage?: MultiplayerOptions<T>['storage']): void {
+  if (storage !== undefined && typeof storage !== 'function') {
+    throw new Error('storage must be a function that creates a storage adapter');
+  }
+}
+
+/**
+ * Validates the serializer option
+ */
+export function validateSerializer<T>(serializer?: MultiplayerOptions<T>['serializer']): void {
+  if (
+    serializer !== undefined &&
+    (serializer === null ||
+      typeof serializer.serialize !== 'function' ||
+      typeof serializer.deserialize !== 'function')
+  ) {
+    throw new Error('serializer must have serialize and deserialize functions');
+  }
+}
+
+/**
+ * Validates the encryption option
+ */
+export function validateEncryption<T>(encryption?: MultiplayerOptions<T>['encryption']): void {
+  if (encryption === undefined) {
+    return;
+  }
+  if (
+    encryption === null ||
+    typeof encryption !== 'object' ||
+    !Array.isArray(encryption.keys) ||
+    encryption.keys.length === 0
+  ) {
+    throw new Error('encryption.keys must be a non-empty array');
+  }
+
+  const ids = new Set<string>();
+  for (const entry of encryption.keys as unknown[]) {
+    const { id, key } = (entry ?? {}) as { id?: unknown; key?: unknown };
+    if (typeof id !== 'string' || id.length === 0) {
+      throw new Error('Each encryption key must have a non-empty string id');
+    }
+    if (ids.has(id)) {
+      throw new Error(`Duplicate encryption key id '${id}'`);
+    }
+    ids.add(id);
+    if (
+      !(key instanceof Uint8Array) &&
+      (typeof key !== 'object' || key === null || !('algorithm' in key))
+    ) {
+      throw new Error(`Encryption key '${id}' must be a CryptoKey or a Uint8Array`);
+    }
+  }
+}
+
+/**
+ * Validates the compression option
+ */
+export function validateCompression<T>(compression?: MultiplayerOptions<T>['compression']): void {
+  if (compression === undefined) {
+    return;
+  }
+  if (compression === null || typeof compression !== 'object') {
+    throw new Error('compression must be an object');
+  }
+  const { codec, threshold } = compression;
+  if (
+    codec !== undefined &&
+    (codec === null ||
+      typeof codec.name !== 'string' ||
+      codec.name.length === 0 ||
+      typeof codec.compress !== 'function' ||
+      typeof codec.decompress !== 'function')
+  ) {
+    throw new Error('compression.codec must have a name and compress and decompress functions');
+  }
+  if (threshold !== undefined && (!Number.isFinite(threshold) || threshold < 0)) {
+    throw new Error('compression.threshold must be a non-negative number');
+  }
+}
+
+/**
+ * Validates the local persistence backend option
+ */
+export function validateLocalPersistence<T>(
+  localPersistence?: MultiplayerOptions<T>['localPersistence'],
+): void {
+  if (localPersistence === undefined) {
+    return;
+  }
+
+  const methods = ['getItem', 'setItem', 'removeItem'] as const;
+  if (methods.some(method => typeof localPersistence?.[method] !== 'function')) {
+    throw new Error('localPersistence must implement getItem, setItem and removeItem');
+  }
+}
+
+/**
+ * Validates the presence option
+ */
+export function validatePresence<T>(presence?: MultiplayerOptions<T>['presence']): void {
+  if (presence === undefined) {
+    return;
+  }
+
+  if (presence === null || typeof presence !== 'object') {
+    throw new Error('presence must be an object');
+  }
+
+  for (const option of ['heartbeatInterval', 'timeout'] as const) {
+    const value = presence[option];
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      throw new Error(`presence.${option} must be a positive number`);
+    }
+  }
+
+  const heartbeatInterval = presence.heartbeatInterval ?? DEFAULT_PRESENCE_HEARTBEAT_INTERVAL;
+  const timeout = presence.timeout ?? DEFAULT_PRESENCE_TIMEOUT;
+  if (timeout <= heartbeatInterval) {
+    throw new Error('presence.timeout must be greater than presence.heartbeatInterval');
+  }
+}
+
+/**
+ * Validates the undo option
+ */
+export function validateUndo<T>(undo?: MultiplayerOptions<T>['undo']): void {
+  if (undo === undefined) {
+    return;
+  }
+
+  if (undo === null || typeof undo !== 'object') {
+    throw new Error('undo must be an object');
+  }
+
+  if (undo.fields !== undefined && !Array.isArray(undo.fields)) {
+    throw new Error('undo.fields must be an array');
+  }
+
+  if (
+    undo.maxDepth !== undefined &&
+    (typeof undo.maxDepth !== 'number' || !Number.isInteger(undo.maxDepth) || undo.maxDepth < 1)
+  ) {
+    throw new Error('undo.maxDepth must be a positive integer');
+  }
+}
+
+/**
+ * Validates the atomic updates option
+ */
+export function validateAtomicUpdates(atomicUpdates?: boolean): void {
+  if (atomicUpdates !== undefined && typeof atomicUpdates !== 'boolean') {
+    throw new Error('atomicUpdates must be a boolean');
+  }
+}
+
+/**
+ * Validates the write batching options
+ */
+export function validateBatching<T>(batching?: MultiplayerOptions<T>['batching']): void {
+  if (batching === undefined) {
+    return;
+  }
+
+  if (batching === null || typeof batching !== 'object') {
+    throw new Error('batching must be an object');
+  }
+
+  if (
+    batching.interval !== undefined &&
+    (typeof batching.interval !== 'number' || !(batching.interval > 0))
+  ) {
+    throw new Error('batching.interval must be a positive number');
+  }
+
+  if (batching.fields === undefined) {
+    return;
+  }
+  if (batching.fields === null || typeof batching.fields !== 'object') {
+    throw new Error('batching.fields must be an object');
+  }
+  for (const [field, window] of Object.entries(batching.fields)) {
+    if (window !== undefined && (typeof window !== 'number' || !(window >= 0))) {
+      throw new Error(`batching.fields.${field} must be a non-negative number`);
+    }
+  }
+}
+
+/**
+ * Validates the schema option and the policy for invalid data
+ */
+export function validateSchema<T>(options: MultiplayerOptions<T>): void {
+  const { schema, schemaPolicy } = options;
+
+  if (schemaPolicy !== undefined && !['reject', 'repair', 'report'].includes(schemaPolicy)) {
+    throw new Error("schemaPolicy must be 'reject', 'repair' or 'report'");
+  }
+
+  if (schema === undefined) {
+    return;
+  }
+
+  if (schema === null || typeof schema !== 'object') {
+    throw new Error('schema must be an object');
+  }
+
+  for (const [field, fieldSchema] of Object.entries(schema) as Array<[string, unknown]>) {
+    if (fieldSchema === undefined) {
+      continue;
+    }
+    if (!isFieldSchema(fieldSchema)) {
+      throw new Error(`Schema for field '${field}' must be a validator or a Standard Schema`);
+    }
+    if (options.fieldTypes?.[field as keyof T] !== undefined) {
+      throw new Error(`Field '${field}' has a field type and cannot have a schema`);
+    }
+  }
+}
+
+function isFieldSchema(value: unknown): boolean {
+  // Some schema libraries (e.g. arktype) create callable schemas
+  if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+    return false;
+  }
+  const standard = (value as Record<string, unknown>)['~standard'];
+  if (standard !== undefined) {
+    return (
+      standard !== null &&
+      typeof standard === 'object' &&
+      typeof (standard as Record<string, unknown>).validate === 'function'
+    );
+  }
+  return typeof (value as Record<string, unknown>).validate === 'function';
+}
+
+/**
+ * Validates the state version and migration options
+ */
+export function validateVersion<T>(options: MultiplayerOptions<T>): void {
+  const { version, migrate } = options;
+
+  if (version !== undefined && (!Number.isInteger(version) || version < 0)) {
+    throw new Error('version must be a non-negative integer');
+  }
+
+  if (migrate !== undefined && typeof migrate !== 'function') {
+    throw new Error('migrate must be a function');
+  }
+}
+
+/**
+ * Validates the conflict resolvers option
+ */
+export function validateConflictResolvers<T>(
+  conflictResolvers?: MultiplayerOptions<T>['conflictResolvers'],
+): void {
+  if (conflictResolvers === undefined) {
+    return;
+  }
+
+  if (conflictResolvers === null || typeof conflictResolvers !== 'object') {
+    throw new Error('conflictResolvers must be an object');
+  }
+
+  for (const [field, resolver] of Object.entries(conflictResolvers)) {
+    if (typeof resolver !== 'function') {
+      throw new Error(`Conflict resolver for '${field}' must be a function`);
+    }
+  }
+}
+
+/**
+ * Validates the field types option
+ */
+export function validateFieldTypes<T>(fieldTypes?: MultiplayerOptions<T>['fieldTypes']): void {
+  if (fieldTypes === undefined) {
+    return;
+  }
+
+  if (fieldTypes === null || typeof fieldTypes !== 'object') {
+    throw new Error('fieldTypes must be an object');
+  }
+
+  for (const [field, fieldType] of Object.entries(fieldTypes)) {
+    switch (fieldType?.kind) {
+      case 'counter':
+      case 'text':
+        break;
+      case 'list':
+        if (typeof fieldType.idKey !== 'string' || fieldType.idKey === '') {
+          throw new Error(`List field '${field}' must have a non-empty idKey`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown field type for '${field}'`);
+    }
+  }
+}
+
 /**
  * Comprehensive validation of all multiplayer options
  */
@@ -96,10 +417,28 @@ export function validateMultiplayerOptions<T>(options: MultiplayerOptions<T>): V
   const warnings: string[] = [];
 
   try {
-    validateAuthenticationOptions(options);
+    validateStorage(options.storage);
+    validateSerializer(options.serializer);
+    validateEncryption(options.encryption);
+    validateCompression(options.compression);
+    // HPKV connection settings are only needed by the default storage adapter
+    if (options.storage === undefined) {
+      validateAuthenticationOptions(options);
+    }
     validateNamespace(options.namespace);
-    validateApiBaseUrl(options.apiBaseUrl);
+    if (options.storage === undefined) {
+      validateApiBaseUrl(options.apiBaseUrl);
+    }
     validateSyncArray(options.sync);
+    validateLocalPersistence(options.localPersistence);
+    validateConflictResolvers(options.conflictResolvers);
+    validateFieldTypes(options.fieldTypes);
+    validatePresence(options.presence);
+    validateUndo(options.undo);
+    validateAtomicUpdates(options.atomicUpdates);
+    validateBatching(options.batching);
+    validateSchema(options);
+    validateVersion(options);
     options.zFactor = validateZFactor(options.zFactor);
   } catch (error) {
     errors.push(error instanceof Error ? error.message : String(error));
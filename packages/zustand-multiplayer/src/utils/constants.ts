@@ -8,6 +8,8 @@ export const DEFAULT_Z_FACTOR = 2;
 export const MAX_Z_FACTOR = 10;
 /** Minimum allowed Z-factor value */
 export const MIN_Z_FACTOR = 0;
+/** Default maximum number of undo steps kept per store */
+export const DEFAULT_UNDO_MAX_DEPTH = 100;
 
 // ============================================================================
 // NETWORK & RETRY
@@ -26,10 +28,48 @@ export const MAX_RETRY_ATTEMPTS = 3;
 // AUTHENTICATION
 // ============================================================================
 
-/** Token expiry time in milliseconds (2 hours) */
+/** Token expiry time in milliseconds (2 hours), assumed when a token's expiry is unknown */
 export const TOKEN_EXPIRY_TIME = 2 * 60 * 60 * 1000;
 /** Token refresh buffer time in milliseconds (15 minutes before expiry) */
 export const TOKEN_REFRESH_BUFFER = 15 * 60 * 1000;
+/** Time in milliseconds notifications are deduplicated after switching to a client with a new token */
+export const TOKEN_SWITCH_DEDUPLICATION_WINDOW = 5000;
+/** WebSocket close codes the server uses when a token is rejected */
+export const AUTH_FAILURE_CLOSE_CODES = [1008, 4001, 4003, 4401, 4403];
+/** Largest request body in bytes the token endpoint handlers accept */
+export const MAX_TOKEN_REQUEST_SIZE = 64 * 1024;
+/** Longest delay setTimeout supports, in milliseconds */
+export const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// ============================================================================
+// LOCAL PERSISTENCE
+// ============================================================================
+
+/** Delay in milliseconds used to batch local snapshot writes */
+export const LOCAL_SNAPSHOT_SAVE_DELAY = 50;
+
+// ============================================================================
+// PRESENCE
+// ============================================================================
+
+/** Default interval in milliseconds at which a client refreshes its presence entry */
+export const DEFAULT_PRESENCE_HEARTBEAT_INTERVAL = 10000;
+/** Default time in milliseconds after which a presence entry without heartbeat expires */
+export const DEFAULT_PRESENCE_TIMEOUT = 30000;
+
+// ============================================================================
+// WRITE BATCHING
+// ============================================================================
+
+/** Default time in milliseconds local writes are held and coalesced when batching is enabled */
+export const DEFAULT_BATCH_INTERVAL = 100;
+
+// ============================================================================
+// COMPRESSION
+// ============================================================================
+
+/** Default size in bytes of a value's JSON from which it is compressed */
+export const DEFAULT_COMPRESSION_THRESHOLD = 1024;
 
 // ============================================================================
 // PERFORMANCE
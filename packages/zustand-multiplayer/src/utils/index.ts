@@ -55,8 +55,57 @@ export function escapeRegExp(string: string): string {
 /**
  * Type guard to check if a value is a plain object
  * @param value The value to check
- * @returns True if the value is a plain object
+ * @returns True if the value is an object literal or has no prototype; false for
+ * arrays and instances such as Date or Map
  */
 export function isPlainObject(value: unknown): value is Record<string, unknown> {
-  return value !== null && typeof value === 'object' && !Array.isArray(value);
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value) as unknown;
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Applies a JSON merge patch (RFC 7386) to a value without mutating it
+ * @param target The value to patch
+ * @param patch The patch; null properties remove the corresponding property
+ * @returns The patched value
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Encodes bytes as a base64 string
+ * @param bytes The bytes to encode
+ * @returns The base64 string
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes a base64 string into bytes
+ * @param value The base64 string
+ * @returns The decoded bytes
+ */
+export function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
 }
@@ -0,0 +1,87 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+describe('Multiplayer write batching', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<TestState>>) {
+    return storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, options),
+    );
+  }
+
+  async function createStorePair(batching: MultiplayerOptions<TestState>['batching']) {
+    const namespace = createUniqueStoreName('batching');
+    const writer = createTestStore({ namespace, batching });
+    const reader = createTestStore({ namespace });
+    await waitForMultipleStores([writer, reader], 'hydrated');
+    return { writer, reader };
+  }
+
+  it('should coalesce rapid updates into one write per key', async () => {
+    const { writer, reader } = await createStorePair({ interval: 50 });
+    const counters: number[] = [];
+    reader.subscribe(state => {
+      if (counters[counters.length - 1] !== state.counter) {
+        counters.push(state.counter);
+      }
+    });
+
+    for (let i = 0; i < 20; i++) {
+      writer.getState().increment();
+    }
+    expect(writer.getState().counter).toBe(20);
+
+    await waitFor(() => expect(reader.getState().counter).toBe(20));
+    expect(counters).toEqual([20]);
+  });
+
+  it('should write batched changes on flush', async () => {
+    const { writer, reader } = await createStorePair({ interval: 60000 });
+
+    writer.getState().setTitle('flushed');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(reader.getState().title).toBe('');
+
+    await writer.multiplayer.flush();
+    await waitFor(() => expect(reader.getState().title).toBe('flushed'));
+  });
+
+  it('should use the batching window of each field', async () => {
+    const { writer, reader } = await createStorePair({ interval: 60000, fields: { title: 0 } });
+
+    writer.getState().increment();
+    writer.getState().setTitle('immediate');
+
+    await waitFor(() => expect(reader.getState().title).toBe('immediate'));
+    expect(reader.getState().counter).toBe(0);
+  });
+
+  it('should write batched changes before disconnecting', async () => {
+    const { writer, reader } = await createStorePair({ interval: 60000 });
+
+    writer.getState().addTodo('before disconnect');
+    await writer.multiplayer.disconnect();
+
+    await waitFor(() => expect(Object.keys(reader.getState().todos)).toHaveLength(1));
+    expect(writer.multiplayer.getPendingChanges()).toHaveLength(0);
+  });
+});
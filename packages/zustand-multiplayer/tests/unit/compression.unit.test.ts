@@ -0,0 +1,134 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { gzipCodec } from '../../src/storage/compressing-storage';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+interface DrawingState {
+  points: number[];
+  shape: { color: string; points: number[] };
+  setPoints: (points: number[]) => void;
+  setShape: (shape: { color: string; points: number[] }) => void;
+}
+
+function createPoints(count: number): number[] {
+  return Array.from({ length: count }, (_, index) => index % 10);
+}
+
+describe('gzipCodec', () => {
+  it('should round-trip data', async () => {
+    const data = new TextEncoder().encode('a'.repeat(1000));
+    const compressed = await gzipCodec.compress(data);
+
+    expect(compressed.byteLength).toBeLessThan(data.byteLength);
+    expect(await gzipCodec.decompress(compressed)).toEqual(data);
+  });
+});
+
+describe('Multiplayer compression', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createDrawingStore(
+    namespace: string,
+    overrides: Partial<MultiplayerOptions<DrawingState>> = {},
+  ) {
+    return storeCreator.createStore<DrawingState>(
+      set => ({
+        points: [],
+        shape: { color: 'black', points: [] },
+        setPoints: points => set({ points }),
+        setShape: shape => set({ shape }),
+      }),
+      getMemoryMultiplayerOptions(server, {
+        namespace,
+        zFactor: 0,
+        compression: { threshold: 100 },
+        ...overrides,
+      }),
+    );
+  }
+
+  function getStoredValue(key: string): unknown {
+    return JSON.parse(server.get(key)!).value;
+  }
+
+  it('should compress values above the threshold', async () => {
+    const namespace = createUniqueStoreName('compression-threshold');
+    const store = createDrawingStore(namespace);
+    await waitForHydration(store);
+
+    await store.multiplayer.setAndSync({ points: createPoints(500) });
+    await store.multiplayer.setAndSync({ shape: { color: 'red', points: [1] } });
+
+    expect(getStoredValue(`${namespace}-0:points`)).toMatch(/^~zip:v1:gzip:/);
+    expect(getStoredValue(`${namespace}-0:shape`)).toEqual({ color: 'red', points: [1] });
+
+    const metrics = store.multiplayer.getMetrics();
+    expect(metrics.bytesBeforeCompression).toBeGreaterThan(1000);
+    expect(metrics.bytesAfterCompression).toBeGreaterThan(0);
+    expect(metrics.bytesAfterCompression).toBeLessThan(metrics.bytesBeforeCompression);
+  });
+
+  it('should sync and hydrate compressed values', async () => {
+    const namespace = createUniqueStoreName('compression-sync');
+    const store1 = createDrawingStore(namespace);
+    const store2 = createDrawingStore(namespace);
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().setPoints(createPoints(500));
+    store1.getState().setShape({ color: 'red', points: createPoints(500) });
+
+    await waitFor(() => {
+      expect(store2.getState().points).toEqual(createPoints(500));
+      expect(store2.getState().shape).toEqual({ color: 'red', points: createPoints(500) });
+    });
+
+    const lateJoiner = createDrawingStore(namespace);
+    await waitForHydration(lateJoiner);
+    expect(lateJoiner.getState().points).toEqual(createPoints(500));
+    expect(lateJoiner.getState().shape).toEqual({ color: 'red', points: createPoints(500) });
+  });
+
+  it('should replace a compressed value that shrinks below the threshold', async () => {
+    const namespace = createUniqueStoreName('compression-shrink');
+    const store1 = createDrawingStore(namespace);
+    const store2 = createDrawingStore(namespace);
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().setShape({ color: 'red', points: createPoints(500) });
+    await waitFor(() => expect(store2.getState().shape.points).toHaveLength(500));
+    await store1.multiplayer.setAndSync({ shape: { color: 'blue', points: [1, 2] } });
+
+    expect(getStoredValue(`${namespace}-0:shape`)).toEqual({ color: 'blue', points: [1, 2] });
+    await waitFor(() => {
+      expect(store2.getState().shape).toEqual({ color: 'blue', points: [1, 2] });
+    });
+  });
+
+  it('should compress values before encrypting them', async () => {
+    const namespace = createUniqueStoreName('compression-encryption');
+    const keys = [{ id: 'k1', key: crypto.getRandomValues(new Uint8Array(32)) }];
+    const store1 = createDrawingStore(namespace, { encryption: { keys } });
+    const store2 = createDrawingStore(namespace, { encryption: { keys } });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    await store1.multiplayer.setAndSync({ points: createPoints(500) });
+
+    expect(getStoredValue(`${namespace}-0:points`)).toMatch(/^~enc:v1:k1:/);
+    expect(store1.multiplayer.getMetrics().bytesAfterCompression).toBeGreaterThan(0);
+    await waitFor(() => expect(store2.getState().points).toEqual(createPoints(500)));
+  });
+});
@@ -1,4 +1,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { counter, list, text } from '../../src/crdt/field-types';
+import { gzipCodec } from '../../src/storage/compressing-storage';
+import { taggedJsonSerializer } from '../../src/storage/serializer';
 import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
 import {
   validateAuthenticationOptions,
@@ -6,6 +9,19 @@ import {
   validateApiBaseUrl,
   validateZFactor,
   validateSyncArray,
+  validateStorage,
+  validateSerializer,
+  validateEncryption,
+  validateCompression,
+  validateLocalPersistence,
+  validateConflictResolvers,
+  validateFieldTypes,
+  validatePresence,
+  validateUndo,
+  validateAtomicUpdates,
+  validateBatching,
+  validateSchema,
+  validateVersion,
   validateMultiplayerOptions,
   validateOptions,
   type ValidationResult,
@@ -52,6 +68,24 @@ describe('Config Validator Unit Tests', () => {
       expect(() => validateAuthenticationOptions(options)).not.toThrow();
     });
 
+    it('should accept options with getToken', () => {
+      const options = {
+        ...mockOptions,
+        apiKey: undefined,
+        getToken: () => Promise.resolve('token'),
+      };
+      expect(() => validateAuthenticationOptions(options)).not.toThrow();
+    });
+
+    it('should throw error for invalid getToken and tokenRequestInit', () => {
+      expect(() =>
+        validateAuthenticationOptions({ ...mockOptions, getToken: 'token' as any }),
+      ).toThrow('getToken must be a function that returns a token');
+      expect(() =>
+        validateAuthenticationOptions({ ...mockOptions, tokenRequestInit: 'include' as any }),
+      ).toThrow('tokenRequestInit must be an object or a function that returns one');
+    });
+
     it('should throw error when neither apiKey nor tokenGenerationUrl is provided', () => {
       const options = {
         ...mockOptions,
@@ -250,7 +284,315 @@ describe('Config Validator Unit Tests', () => {
     });
   });
 
+  describe('validateStorage', () => {
+    it('should accept undefined', () => {
+      expect(() => validateStorage(undefined)).not.toThrow();
+    });
+
+    it('should accept a factory function', () => {
+      expect(() => validateStorage(() => ({}) as any)).not.toThrow();
+    });
+
+    it('should throw error for non-function storage', () => {
+      expect(() => validateStorage({} as any)).toThrow(
+        'storage must be a function that creates a storage adapter',
+      );
+    });
+  });
+
+  describe('validateSerializer', () => {
+    it('should accept built-in and custom serializers', () => {
+      expect(() => validateSerializer(taggedJsonSerializer)).not.toThrow();
+      expect(() =>
+        validateSerializer({ serialize: value => value, deserialize: value => value }),
+      ).not.toThrow();
+    });
+
+    it('should throw error for incomplete serializers', () => {
+      expect(() => validateSerializer({ serialize: (value: unknown) => value } as any)).toThrow(
+        'serializer must have serialize and deserialize functions',
+      );
+    });
+  });
+
+  describe('validateEncryption', () => {
+    it('should accept raw and imported keys', async () => {
+      const cryptoKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+        'encrypt',
+        'decrypt',
+      ]);
+      expect(() => validateEncryption(undefined)).not.toThrow();
+      expect(() =>
+        validateEncryption({
+          keys: [
+            { id: 'current', key: cryptoKey },
+            { id: 'previous', key: new Uint8Array(32) },
+          ],
+        }),
+      ).not.toThrow();
+    });
+
+    it('should throw error for missing keys', () => {
+      expect(() => validateEncryption({ keys: [] })).toThrow(
+        'encryption.keys must be a non-empty array',
+      );
+    });
+
+    it('should throw error for invalid key entries', () => {
+      expect(() => validateEncryption({ keys: [{ id: '', key: new Uint8Array(32) }] })).toThrow(
+        'Each encryption key must have a non-empty string id',
+      );
+      expect(() => validateEncryption({ keys: [{ id: 'a', key: 'secret' as any }] })).toThrow(
+        "Encryption key 'a' must be a CryptoKey or a Uint8Array",
+      );
+      expect(() =>
+        validateEncryption({
+          keys: [
+            { id: 'a', key: new Uint8Array(32) },
+            { id: 'a', key: new Uint8Array(32) },
+          ],
+        }),
+      ).toThrow("Duplicate encryption key id 'a'");
+    });
+  });
+
+  describe('validateCompression', () => {
+    it('should accept defaults and custom codecs', () => {
+      expect(() => validateCompression(undefined)).not.toThrow();
+      expect(() => validateCompression({})).not.toThrow();
+      expect(() => validateCompression({ codec: gzipCodec, threshold: 0 })).not.toThrow();
+    });
+
+    it('should throw error for invalid codecs', () => {
+      expect(() =>
+        validateCompression({ codec: { name: 'brotli', compress: gzipCodec.compress } as any }),
+      ).toThrow('compression.codec must have a name and compress and decompress functions');
+    });
+
+    it('should throw error for invalid thresholds', () => {
+      expect(() => validateCompression({ threshold: -1 })).toThrow(
+        'compression.threshold must be a non-negative number',
+      );
+    });
+  });
+
+  describe('validateLocalPersistence', () => {
+    it('should accept undefined', () => {
+      expect(() => validateLocalPersistence(undefined)).not.toThrow();
+    });
+
+    it('should accept a complete backend', () => {
+      const backend = {
+        getItem: () => Promise.resolve(null),
+        setItem: () => Promise.resolve(),
+        removeItem: () => Promise.resolve(),
+      };
+      expect(() => validateLocalPersistence(backend)).not.toThrow();
+    });
+
+    it('should throw error for incomplete backend', () => {
+      expect(() =>
+        validateLocalPersistence({ getItem: () => Promise.resolve(null) } as any),
+      ).toThrow('localPersistence must implement getItem, setItem and removeItem');
+    });
+  });
+
+  describe('validateConflictResolvers', () => {
+    it('should accept undefined', () => {
+      expect(() => validateConflictResolvers(undefined)).not.toThrow();
+    });
+
+    it('should accept resolver functions keyed by field', () => {
+      expect(() =>
+        validateConflictResolvers<TestState>({ counter: (_local, remote) => remote }),
+      ).not.toThrow();
+    });
+
+    it('should throw error for non-function resolvers', () => {
+      expect(() => validateConflictResolvers<TestState>({ counter: 'max' as any })).toThrow(
+        "Conflict resolver for 'counter' must be a function",
+      );
+    });
+
+    it('should throw error for non-object values', () => {
+      expect(() => validateConflictResolvers(null as any)).toThrow(
+        'conflictResolvers must be an object',
+      );
+    });
+  });
+
+  describe('validateFieldTypes', () => {
+    it('should accept undefined', () => {
+      expect(() => validateFieldTypes(undefined)).not.toThrow();
+    });
+
+    it('should accept counter, list and text fields', () => {
+      expect(() =>
+        validateFieldTypes<TestState>({ counter: counter(), items: list(), text: text() }),
+      ).not.toThrow();
+    });
+
+    it('should throw error for list fields without an id key', () => {
+      expect(() => validateFieldTypes<TestState>({ todos: { kind: 'list', idKey: '' } })).toThrow(
+        "List field 'todos' must have a non-empty idKey",
+      );
+    });
+
+    it('should throw error for unknown field types', () => {
+      expect(() => validateFieldTypes<TestState>({ counter: { kind: 'gauge' } as any })).toThrow(
+        "Unknown field type for 'counter'",
+      );
+    });
+  });
+
+  describe('validatePresence', () => {
+    it('should accept undefined and valid settings', () => {
+      expect(() => validatePresence(undefined)).not.toThrow();
+      expect(() => validatePresence({ heartbeatInterval: 1000, timeout: 5000 })).not.toThrow();
+    });
+
+    it('should throw error for non-positive intervals', () => {
+      expect(() => validatePresence({ heartbeatInterval: 0 })).toThrow(
+        'presence.heartbeatInterval must be a positive number',
+      );
+    });
+
+    it('should throw error if the timeout does not exceed the heartbeat interval', () => {
+      expect(() => validatePresence({ heartbeatInterval: 5000, timeout: 5000 })).toThrow(
+        'presence.timeout must be greater than presence.heartbeatInterval',
+      );
+    });
+  });
+
+  describe('validateUndo', () => {
+    it('should accept undefined and valid settings', () => {
+      expect(() => validateUndo(undefined)).not.toThrow();
+      expect(() => validateUndo<TestState>({ fields: ['counter'], maxDepth: 10 })).not.toThrow();
+    });
+
+    it('should throw error for invalid stack depths', () => {
+      expect(() => validateUndo({ maxDepth: 0 })).toThrow(
+        'undo.maxDepth must be a positive integer',
+      );
+      expect(() => validateUndo({ maxDepth: 1.5 })).toThrow(
+        'undo.maxDepth must be a positive integer',
+      );
+    });
+
+    it('should throw error for non-array fields', () => {
+      expect(() => validateUndo({ fields: 'counter' as any })).toThrow(
+        'undo.fields must be an array',
+      );
+    });
+  });
+
+  describe('validateAtomicUpdates', () => {
+    it('should accept undefined and booleans', () => {
+      expect(() => validateAtomicUpdates(undefined)).not.toThrow();
+      expect(() => validateAtomicUpdates(true)).not.toThrow();
+    });
+
+    it('should throw error for non-boolean values', () => {
+      expect(() => validateAtomicUpdates('yes' as any)).toThrow('atomicUpdates must be a boolean');
+    });
+  });
+
+  describe('validateBatching', () => {
+    it('should accept undefined and valid settings', () => {
+      expect(() => validateBatching(undefined)).not.toThrow();
+      expect(() =>
+        validateBatching<TestState>({ interval: 50, fields: { counter: 0 } }),
+      ).not.toThrow();
+    });
+
+    it('should throw error for invalid intervals', () => {
+      expect(() => validateBatching({ interval: 0 })).toThrow(
+        'batching.interval must be a positive number',
+      );
+      expect(() => validateBatching({ fields: { counter: -1 } })).toThrow(
+        'batching.fields.counter must be a non-negative number',
+      );
+    });
+
+    it('should throw error for non-object settings', () => {
+      expect(() => validateBatching(true as any)).toThrow('batching must be an object');
+      expect(() => validateBatching({ fields: 'counter' as any })).toThrow(
+        'batching.fields must be an object',
+      );
+    });
+  });
+
+  describe('validateSchema', () => {
+    const titleValidator = { validate: () => [] };
+
+    it('should accept validators and Standard Schemas', () => {
+      const standardSchema = {
+        '~standard': { version: 1, vendor: 'test', validate: (value: unknown) => ({ value }) },
+      };
+      expect(() =>
+        validateSchema<TestState>({
+          namespace: 'test',
+          schema: { counter: titleValidator, title: standardSchema },
+          schemaPolicy: 'repair',
+        } as any),
+      ).not.toThrow();
+    });
+
+    it('should throw error for invalid schemas', () => {
+      expect(() =>
+        validateSchema({ namespace: 'test', schema: { title: 'string' as any } }),
+      ).toThrow("Schema for field 'title' must be a validator or a Standard Schema");
+    });
+
+    it('should throw error for fields with a field type', () => {
+      expect(() =>
+        validateSchema<TestState>({
+          namespace: 'test',
+          schema: { counter: titleValidator },
+          fieldTypes: { counter: counter() },
+        }),
+      ).toThrow("Field 'counter' has a field type and cannot have a schema");
+    });
+
+    it('should throw error for unknown policies', () => {
+      expect(() => validateSchema({ namespace: 'test', schemaPolicy: 'drop' as any })).toThrow(
+        "schemaPolicy must be 'reject', 'repair' or 'report'",
+      );
+    });
+  });
+
+  describe('validateVersion', () => {
+    it('should accept a version with a migrate function', () => {
+      expect(() =>
+        validateVersion({ namespace: 'test', version: 2, migrate: state => state }),
+      ).not.toThrow();
+    });
+
+    it('should throw error for invalid versions', () => {
+      expect(() => validateVersion({ namespace: 'test', version: -1 })).toThrow(
+        'version must be a non-negative integer',
+      );
+      expect(() => validateVersion({ namespace: 'test', version: 1.5 })).toThrow(
+        'version must be a non-negative integer',
+      );
+    });
+
+    it('should throw error for invalid migrate functions', () => {
+      expect(() => validateVersion({ namespace: 'test', migrate: {} as any })).toThrow(
+        'migrate must be a function',
+      );
+    });
+  });
+
   describe('validateMultiplayerOptions', () => {
+    it('should not require HPKV connection settings when a custom storage is provided', () => {
+      const result = validateMultiplayerOptions<TestState>({
+        namespace: 'test-namespace',
+        storage: () => ({}) as any,
+      });
+      expect(result.isValid).toBe(true);
+    });
+
     it('should return valid result for valid options', () => {
       const result = validateMultiplayerOptions(mockOptions);
       expect(result.isValid).toBe(true);
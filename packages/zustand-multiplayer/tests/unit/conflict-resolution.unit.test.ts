@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { StateCreator } from 'zustand';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { ConflictResolver } from '../../src/types/multiplayer-types';
+import { createDelay } from '../../src/utils';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+interface Cell {
+  formula: string;
+  style: Record<string, boolean>;
+}
+
+interface SheetState {
+  cells: Record<string, Cell>;
+  title: string;
+  setCell: (id: string, cell: Cell) => void;
+}
+
+const sheetInitializer: StateCreator<SheetState, [], []> = set => ({
+  cells: {},
+  title: '',
+  setCell: (id, cell) => set(state => ({ cells: { ...state.cells, [id]: cell } })),
+});
+
+const mergeCells: ConflictResolver = (local, remote) => {
+  const localCell = local as Cell | undefined;
+  const remoteCell = remote as Cell | undefined;
+  if (localCell === undefined || remoteCell === undefined) {
+    return remoteCell;
+  }
+  return {
+    formula:
+      localCell.formula.length > remoteCell.formula.length ? localCell.formula : remoteCell.formula,
+    style: { ...localCell.style, ...remoteCell.style },
+  };
+};
+
+describe('Multiplayer conflict resolvers', () => {
+  const server = new MemoryStorageServer();
+  const storeCreator = new StoreCreator();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function writeRemote(key: string, value: unknown, timestamp = Date.now()) {
+    server.set(key, JSON.stringify({ value, clientId: 'remote', timestamp }), true);
+  }
+
+  it('should merge remote changes and converge on the resolved value', async () => {
+    const namespace = createUniqueStoreName('resolver-merge');
+    const options = getMemoryMultiplayerOptions<SheetState>(server, {
+      namespace,
+      zFactor: 1,
+      conflictResolvers: { cells: mergeCells },
+    });
+    const store1 = storeCreator.createStore<SheetState>(sheetInitializer, options);
+    const store2 = storeCreator.createStore<SheetState>(sheetInitializer, options);
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().setCell('A1', { formula: '=SUM(A2:A9)', style: { bold: true } });
+    await waitFor(() => expect(store2.getState().cells.A1).toBeDefined());
+
+    writeRemote(`${namespace}-1:cells:A1`, { formula: '=1', style: { italic: true } });
+
+    const expected = { formula: '=SUM(A2:A9)', style: { bold: true, italic: true } };
+    await waitFor(() => {
+      expect(store1.getState().cells.A1).toEqual(expected);
+      expect(store2.getState().cells.A1).toEqual(expected);
+      expect(JSON.parse(server.get(`${namespace}-1:cells:A1`)!).value).toEqual(expected);
+    });
+  });
+
+  it('should pass stale changes and version metadata to the resolver', async () => {
+    const namespace = createUniqueStoreName('resolver-meta');
+    const resolver = vi.fn<ConflictResolver>((_local, remote) => remote);
+    const store = storeCreator.createStore<SheetState>(
+      sheetInitializer,
+      getMemoryMultiplayerOptions<SheetState>(server, {
+        namespace,
+        conflictResolvers: { title: resolver },
+      }),
+    );
+    await waitForMultipleStores([store], 'hydrated');
+    const key = `${namespace}-2:title`;
+
+    writeRemote(key, 'newer', 2000);
+    await waitFor(() => expect(store.getState().title).toBe('newer'));
+    writeRemote(key, 'older', 1000);
+    await waitFor(() => expect(resolver).toHaveBeenCalledTimes(2));
+
+    expect(resolver).toHaveBeenLastCalledWith('newer', 'older', {
+      field: 'title',
+      path: ['title'],
+      key,
+      localVersion: { key, timestamp: 2000, clientId: 'remote', deleted: false },
+      remoteVersion: { key, timestamp: 1000, clientId: 'remote', deleted: false },
+    });
+    expect(store.getState().title).toBe('older');
+
+    // Fields without a resolver keep last-writer-wins
+    writeRemote(`${namespace}-2:cells:A1`, { formula: '=2', style: {} }, 2000);
+    writeRemote(`${namespace}-2:cells:A1`, { formula: '=1', style: {} }, 1000);
+    await createDelay(20);
+    expect(store.getState().cells.A1.formula).toBe('=2');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { EncryptionKey } from '../../src/storage/encrypting-storage';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+interface NotesState {
+  title: string;
+  settings: { theme: string; fontSize: number };
+  setTitle: (title: string) => void;
+  setTheme: (theme: string) => void;
+}
+
+function createKey(id: string): EncryptionKey {
+  return { id, key: crypto.getRandomValues(new Uint8Array(32)) };
+}
+
+describe('Multiplayer encryption', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createNotesStore(namespace: string, keys: EncryptionKey[]) {
+    return storeCreator.createStore<NotesState>(
+      set => ({
+        title: '',
+        settings: { theme: 'light', fontSize: 12 },
+        setTitle: title => set({ title }),
+        setTheme: theme => set(state => ({ settings: { ...state.settings, theme } })),
+      }),
+      getMemoryMultiplayerOptions(server, { namespace, encryption: { keys } }),
+    );
+  }
+
+  function getStoredRecords(namespace: string): string[] {
+    return server
+      .range(namespace, `${namespace}\xff`)
+      .records.map(record => String(JSON.parse(record.value).value));
+  }
+
+  it('should only store encrypted values', async () => {
+    const namespace = createUniqueStoreName('encryption-stored');
+    const store = createNotesStore(namespace, [createKey('k1')]);
+    await waitForHydration(store);
+
+    await store.multiplayer.setAndSync({ title: 'top secret' });
+
+    const records = getStoredRecords(namespace);
+    expect(records.length).toBeGreaterThan(0);
+    for (const record of records) {
+      expect(record).toMatch(/^~enc:v1:k1:/);
+      expect(record).not.toContain('top secret');
+    }
+  });
+
+  it('should sync and hydrate encrypted values', async () => {
+    const namespace = createUniqueStoreName('encryption-sync');
+    const keys = [createKey('k1')];
+    const store1 = createNotesStore(namespace, keys);
+    const store2 = createNotesStore(namespace, keys);
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().setTitle('shared');
+    store1.getState().setTheme('dark');
+
+    await waitFor(() => {
+      expect(store2.getState().title).toBe('shared');
+      expect(store2.getState().settings).toEqual({ theme: 'dark', fontSize: 12 });
+    });
+
+    const lateJoiner = createNotesStore(namespace, keys);
+    await waitForHydration(lateJoiner);
+    expect(lateJoiner.getState().title).toBe('shared');
+    expect(lateJoiner.getState().settings.theme).toBe('dark');
+  });
+
+  it('should decrypt values written with a previous key', async () => {
+    const namespace = createUniqueStoreName('encryption-rotation');
+    const oldKey = createKey('2024');
+    const newKey = createKey('2025');
+    const oldStore = createNotesStore(namespace, [oldKey]);
+    await waitForHydration(oldStore);
+    await oldStore.multiplayer.setAndSync({ title: 'before rotation' });
+
+    const rotatedStore = createNotesStore(namespace, [newKey, oldKey]);
+    await waitForHydration(rotatedStore);
+    expect(rotatedStore.getState().title).toBe('before rotation');
+
+    await rotatedStore.multiplayer.setAndSync({ title: 'after rotation' });
+    expect(getStoredRecords(namespace).some(record => record.startsWith('~enc:v1:2025:'))).toBe(
+      true,
+    );
+  });
+
+  it('should skip values that cannot be decrypted', async () => {
+    const namespace = createUniqueStoreName('encryption-wrong-key');
+    const writer = createNotesStore(namespace, [createKey('k1')]);
+    const reader = createNotesStore(namespace, [createKey('k1')]);
+    await waitForMultipleStores([writer, reader], 'hydrated');
+
+    await writer.multiplayer.setAndSync({ title: 'unreadable' });
+    const lateReader = createNotesStore(namespace, [createKey('k1')]);
+    await waitForHydration(lateReader);
+
+    expect(reader.getState().title).toBe('');
+    expect(lateReader.getState().title).toBe('');
+  });
+});
@@ -0,0 +1,145 @@
+import { ConnectionState } from '@hpkv/websocket-client';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { MemoryStorage, MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { StorageTokenListener } from '../../src/storage/storage-adapter';
+import type { MultiplayerEvents, MultiplayerOptions } from '../../src/types/multiplayer-types';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+describe('Multiplayer events', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<TestState>>) {
+    return storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, options),
+    );
+  }
+
+  it('should emit connection and hydration events during startup', async () => {
+    const store = createTestStore();
+    const states: ConnectionState[] = [];
+    const hydrated = vi.fn();
+    store.multiplayer.on('connectionChange', ({ state }) => states.push(state));
+    store.multiplayer.on('hydrated', hydrated);
+
+    await waitForHydration(store);
+
+    expect(states).toContain(ConnectionState.CONNECTED);
+    expect(hydrated).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit localSync for written changes and remoteChange on other clients', async () => {
+    const namespace = createUniqueStoreName('events-sync');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    const synced: Array<MultiplayerEvents['localSync']> = [];
+    const received: Array<MultiplayerEvents['remoteChange']> = [];
+    store1.multiplayer.on('localSync', payload => synced.push(payload));
+    store2.multiplayer.on('remoteChange', payload => received.push(payload));
+
+    await store1.multiplayer.setAndSync({ title: 'hello' });
+
+    expect(synced).toEqual([{ path: ['title'], operation: 'set' }]);
+    await waitFor(() => {
+      expect(received).toEqual([
+        { path: ['title'], value: 'hello', clientId: expect.any(String) as string },
+      ]);
+    });
+  });
+
+  it('should emit conflict when a resolver merges a remote change', async () => {
+    const namespace = createUniqueStoreName('events-conflict');
+    const store1 = createTestStore({
+      namespace,
+      conflictResolvers: { title: (local, remote) => `${String(local)}+${String(remote)}` },
+    });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    const conflicts: Array<MultiplayerEvents['conflict']> = [];
+    store1.multiplayer.on('conflict', payload => conflicts.push(payload));
+
+    store2.getState().setTitle('remote');
+
+    await waitFor(() => expect(conflicts).toHaveLength(1));
+    expect(conflicts[0]).toMatchObject({
+      path: ['title'],
+      local: '',
+      remote: 'remote',
+      resolved: '+remote',
+    });
+  });
+
+  it('should emit syncError when a write fails', async () => {
+    const store = createTestStore({
+      storage: context => {
+        const storage = new MemoryStorage(server, context);
+        vi.spyOn(storage, 'setItem').mockRejectedValue(new Error('Quota exceeded'));
+        return storage;
+      },
+    });
+    await waitForHydration(store);
+    const errors: Array<MultiplayerEvents['syncError']> = [];
+    store.multiplayer.on('syncError', payload => errors.push(payload));
+
+    await expect(store.multiplayer.setAndSync({ counter: 1 })).rejects.toThrow();
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].path).toEqual(['counter']);
+    expect(errors[0].error.message).toBe('Quota exceeded');
+  });
+
+  it('should emit tokenRefreshed for tokens obtained by the storage adapter', async () => {
+    const tokenListeners = new Set<StorageTokenListener>();
+    const store = createTestStore({
+      storage: context =>
+        Object.assign(new MemoryStorage(server, context), {
+          addTokenListener: (listener: StorageTokenListener) => {
+            tokenListeners.add(listener);
+            return () => tokenListeners.delete(listener);
+          },
+        }),
+    });
+    await waitForHydration(store);
+    const refreshed = vi.fn();
+    store.multiplayer.on('tokenRefreshed', refreshed);
+
+    tokenListeners.forEach(listener => listener(12345));
+
+    expect(refreshed).toHaveBeenCalledWith({ expiresAt: 12345 });
+  });
+
+  it('should stop calling a handler once it is removed and isolate failing handlers', async () => {
+    const store = createTestStore();
+    await waitForHydration(store);
+    const handler = vi.fn();
+    const unsubscribe = store.multiplayer.on('localSync', handler);
+    store.multiplayer.on('localSync', () => {
+      throw new Error('Handler failed');
+    });
+
+    await store.multiplayer.setAndSync({ counter: 1 });
+    unsubscribe();
+    await store.multiplayer.setAndSync({ counter: 2 });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { generateKeyBetween } from '../../src/crdt/fractional-index';
+
+describe('Fractional Index Unit Tests', () => {
+  it('should generate keys when appending and prepending', () => {
+    const keys = [generateKeyBetween(null, null)];
+    for (let i = 0; i < 100; i++) {
+      keys.push(generateKeyBetween(keys[keys.length - 1], null));
+      keys.unshift(generateKeyBetween(null, keys[0]));
+    }
+
+    expect([...keys].sort()).toEqual(keys);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(Math.max(...keys.map(key => key.length))).toBeLessThanOrEqual(3);
+  });
+
+  it('should generate keys between two keys', () => {
+    const lower = generateKeyBetween(null, null);
+    const upper = generateKeyBetween(lower, null);
+    let current = upper;
+
+    for (let i = 0; i < 50; i++) {
+      const key = generateKeyBetween(lower, current);
+      expect(key > lower).toBe(true);
+      expect(key < current).toBe(true);
+      current = key;
+    }
+
+    for (let i = 0; i < 50; i++) {
+      const key = generateKeyBetween(current, upper);
+      expect(key > current).toBe(true);
+      expect(key < upper).toBe(true);
+      current = key;
+    }
+  });
+
+  it('should reject bounds in the wrong order', () => {
+    const key = generateKeyBetween(null, null);
+
+    expect(() => generateKeyBetween(key, key)).toThrow();
+    expect(() => generateKeyBetween(generateKeyBetween(key, null), key)).toThrow();
+  });
+});
@@ -0,0 +1,201 @@
+import { ConnectionState } from '@hpkv/websocket-client';
+import type { HPKVNotificationResponse } from '@hpkv/websocket-client';
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { createLogger, LogLevel } from '../../src/monitoring/logger';
+import { PerformanceMonitor } from '../../src/monitoring/profiler';
+import { HPKVStorage } from '../../src/storage/hpkv-storage';
+import type { StorageChangeEvent } from '../../src/storage/storage-adapter';
+
+type Handler = (...args: unknown[]) => void;
+
+class FakeSubscriptionClient {
+  connectionState = ConnectionState.DISCONNECTED;
+  readonly handlers = new Map<string, Set<Handler>>();
+  readonly subscriptions = new Map<string, (data: HPKVNotificationResponse) => void>();
+  destroyed = false;
+
+  constructor(readonly token: string) {}
+
+  on(event: string, handler: Handler): void {
+    const handlers = this.handlers.get(event) ?? new Set();
+    handlers.add(handler);
+    this.handlers.set(event, handlers);
+  }
+
+  off(event: string, handler: Handler): void {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  emit(event: string, ...args: unknown[]): void {
+    this.handlers.get(event)?.forEach(handler => handler(...args));
+  }
+
+  connect(): Promise<void> {
+    this.connectionState = ConnectionState.CONNECTED;
+    this.emit('connected');
+    return Promise.resolve();
+  }
+
+  disconnect(): Promise<void> {
+    this.connectionState = ConnectionState.DISCONNECTED;
+    this.emit('disconnected', { code: 1000, gracefully: true });
+    return Promise.resolve();
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+  }
+
+  getConnectionStats() {
+    return {
+      isConnected: this.connectionState === ConnectionState.CONNECTED,
+      reconnectAttempts: 0,
+      messagesPending: 0,
+      connectionState: this.connectionState,
+    };
+  }
+
+  subscribe(callback: (data: HPKVNotificationResponse) => void): string {
+    const id = String(this.subscriptions.size + 1);
+    this.subscriptions.set(id, callback);
+    return id;
+  }
+
+  unsubscribe(id: string): void {
+    this.subscriptions.delete(id);
+  }
+
+  notify(key: string, value: unknown, timestamp: number): void {
+    const data: HPKVNotificationResponse = {
+      type: 'notification',
+      key,
+      value: JSON.stringify({ value, clientId: 'other-client', timestamp }),
+      timestamp,
+    };
+    this.subscriptions.forEach(callback => callback(data));
+  }
+}
+
+const clients = vi.hoisted(() => [] as unknown[]);
+
+vi.mock('@hpkv/websocket-client', async importOriginal => ({
+  ...(await importOriginal<Record<string, unknown>>()),
+  HPKVClientFactory: {
+    createSubscriptionClient: (token: string) => {
+      const client = new FakeSubscriptionClient(token);
+      clients.push(client);
+      return client;
+    },
+  },
+}));
+
+describe('HPKVStorage token refresh', () => {
+  let tokenCount = 0;
+  let storage: HPKVStorage;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clients.length = 0;
+    tokenCount = 0;
+    storage = new HPKVStorage(
+      {
+        namespace: 'refresh',
+        apiBaseUrl: 'https://example.com',
+        getToken: () => Promise.resolve({ token: `token-${++tokenCount}`, expiresIn: 60 }),
+      },
+      ['*'],
+      createLogger(LogLevel.NONE),
+      new PerformanceMonitor(),
+    );
+  });
+
+  afterEach(async () => {
+    await storage.destroy();
+    vi.useRealTimers();
+  });
+
+  function getClient(index: number): FakeSubscriptionClient {
+    return clients[index] as FakeSubscriptionClient;
+  }
+
+  it('should switch to a new connection without a disconnect', async () => {
+    const states: ConnectionState[] = [];
+    storage.addConnectionListener(state => states.push(state));
+    await storage.ensureConnection();
+    expect(states).toEqual([ConnectionState.CONNECTED]);
+
+    await vi.advanceTimersByTimeAsync(45000);
+
+    expect(clients).toHaveLength(2);
+    expect(getClient(1).token).toBe('token-2');
+    expect(getClient(0).subscriptions.size).toBe(0);
+    expect(getClient(0).destroyed).toBe(true);
+    expect(getClient(1).subscriptions.size).toBe(1);
+    expect(states).toEqual([ConnectionState.CONNECTED]);
+    expect(storage.getConnectionStatus()?.connectionState).toBe(ConnectionState.CONNECTED);
+  });
+
+  it('should deliver notifications once while both connections are subscribed', async () => {
+    const states: ConnectionState[] = [];
+    const events: StorageChangeEvent[] = [];
+    storage.addConnectionListener(state => states.push(state));
+    storage.addChangeListener(event => events.push(event));
+    await storage.ensureConnection();
+
+    // Keep the previous connection open after the switch
+    const previousDisconnect = FakeSubscriptionClient.prototype.disconnect;
+    let releaseDisconnect = () => {};
+    vi.spyOn(getClient(0), 'disconnect').mockImplementation(function (
+      this: FakeSubscriptionClient,
+    ) {
+      return new Promise<void>(resolve => {
+        releaseDisconnect = () => resolve(previousDisconnect.call(this));
+      });
+    });
+    await vi.advanceTimersByTimeAsync(45000);
+    expect(getClient(0).subscriptions.size).toBe(1);
+    expect(getClient(1).subscriptions.size).toBe(1);
+
+    getClient(0).notify('refresh-2:title', 'first', 1);
+    getClient(1).notify('refresh-2:title', 'first', 1);
+    getClient(1).notify('refresh-2:title', 'second', 2);
+    getClient(0).notify('refresh-2:title', 'second', 2);
+    releaseDisconnect();
+    await vi.advanceTimersByTimeAsync(0);
+    getClient(1).notify('refresh-2:title', 'third', 3);
+
+    expect(events.map(event => event.value)).toEqual(['first', 'second', 'third']);
+    expect(getClient(0).subscriptions.size).toBe(0);
+    expect(getClient(0).destroyed).toBe(true);
+    expect(states).toEqual([ConnectionState.CONNECTED]);
+  });
+
+  it('should keep the current connection if the new one fails', async () => {
+    await storage.ensureConnection();
+    vi.spyOn(FakeSubscriptionClient.prototype, 'connect').mockRejectedValueOnce(
+      new Error('network down'),
+    );
+
+    await vi.advanceTimersByTimeAsync(45000);
+
+    expect(clients).toHaveLength(2);
+    expect(getClient(1).destroyed).toBe(true);
+    expect(getClient(0).destroyed).toBe(false);
+    expect(getClient(0).subscriptions.size).toBe(1);
+    expect(storage.getConnectionStatus()?.connectionState).toBe(ConnectionState.CONNECTED);
+  });
+
+  it('should only replace the token when the server rejects it', async () => {
+    await storage.ensureConnection();
+
+    getClient(0).emit('error', new Error('Unexpected token < in JSON at position 0'));
+    getClient(0).emit('error', new Error('Failed to update the author field'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(clients).toHaveLength(1);
+
+    getClient(0).emit('error', new Error('401 Unauthorized: token has expired'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(clients).toHaveLength(2);
+    expect(getClient(1).token).toBe('token-2');
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { StateCreator } from 'zustand';
+import { list } from '../../src/crdt/field-types';
+import { ListField } from '../../src/crdt/list-field';
+import { Logger, LogLevel } from '../../src/monitoring/logger';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForDisconnection,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+interface Message {
+  id: string;
+  text: string;
+}
+
+interface ChatState {
+  messages: Message[];
+  addMessage: (message: Message) => void;
+  setMessages: (messages: Message[]) => void;
+}
+
+function createListField(): ListField {
+  return new ListField(list(), {
+    field: 'messages',
+    clientId: 'client-1',
+    logger: new Logger(LogLevel.NONE),
+  });
+}
+
+describe('ListField Unit Tests', () => {
+  const a = { id: 'a', text: 'A' };
+  const b = { id: 'b', text: 'B' };
+  const c = { id: 'c', text: 'C' };
+
+  it('should write one entry per inserted item', () => {
+    const field = createListField();
+
+    const writes = field.applyLocalChange([], [a, b]);
+
+    expect(writes.map(write => write.entryId)).toEqual(['a', 'b']);
+    expect(field.getValue()).toEqual([a, b]);
+  });
+
+  it('should only write the items touched by a change', () => {
+    const field = createListField();
+    field.applyLocalChange([], [a, b, c]);
+
+    const updated = { id: 'b', text: 'B2' };
+    expect(field.applyLocalChange([a, b, c], [a, updated, c])).toEqual([
+      { entryId: 'b', operation: 'set', value: { item: { text: 'B2' } } },
+    ]);
+    expect(field.applyLocalChange([a, updated, c], [a, c])).toEqual([
+      { entryId: 'b', operation: 'remove' },
+    ]);
+
+    const moveWrites = field.applyLocalChange([a, c], [c, a]);
+    expect(moveWrites).toHaveLength(1);
+    expect(moveWrites[0].value).toEqual({ order: expect.any(String) });
+    expect(field.getValue()).toEqual([c, a]);
+  });
+
+  it('should merge remote entries into the local order', () => {
+    const local = createListField();
+    const remote = createListField();
+    local.applyLocalChange([], [a, c]);
+    for (const write of local.getEntries()) {
+      remote.applyRemoteChange(...write);
+    }
+
+    for (const write of remote.applyLocalChange([a, c], [a, b, c])) {
+      local.applyRemoteChange(write.entryId, write.value);
+    }
+
+    expect(local.getValue()).toEqual([a, b, c]);
+  });
+
+  it('should skip items without a unique id', () => {
+    const field = createListField();
+
+    const writes = field.applyLocalChange([], [a, { text: 'no id' }, { ...a }]);
+
+    expect(writes).toHaveLength(1);
+    expect(field.getValue()).toEqual([a]);
+  });
+});
+
+describe('Multiplayer list fields', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+  const initializer: StateCreator<ChatState, [], []> = set => ({
+    messages: [],
+    addMessage: message => set(state => ({ messages: [...state.messages, message] })),
+    setMessages: messages => set({ messages }),
+  });
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<ChatState>>) {
+    return storeCreator.createStore<ChatState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, { fieldTypes: { messages: list() }, ...options }),
+    );
+  }
+
+  it('should keep concurrent appends from all clients', async () => {
+    const namespace = createUniqueStoreName('list-concurrent');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().addMessage({ id: 'm1', text: 'from store1' });
+    store2.getState().addMessage({ id: 'm2', text: 'from store2' });
+
+    await waitFor(() => {
+      expect(store1.getState().messages).toHaveLength(2);
+      expect(store2.getState().messages).toEqual(store1.getState().messages);
+    });
+
+    const store3 = createTestStore({ namespace });
+    await waitForHydration(store3);
+    expect(store3.getState().messages).toEqual(store1.getState().messages);
+  });
+
+  it('should sync moves and removals', async () => {
+    const namespace = createUniqueStoreName('list-move');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    const [m1, m2, m3] = ['m1', 'm2', 'm3'].map(id => ({ id, text: id }));
+    store1.getState().setMessages([m1, m2, m3]);
+    await waitFor(() => expect(store2.getState().messages).toHaveLength(3));
+
+    store1.getState().setMessages([m3, m1]);
+
+    await waitFor(() => {
+      expect(store2.getState().messages.map(message => message.id)).toEqual(['m3', 'm1']);
+    });
+  });
+
+  it('should merge items added while offline', async () => {
+    const namespace = createUniqueStoreName('list-offline');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    await store1.multiplayer.disconnect();
+    await waitForDisconnection(store1);
+    store1.getState().addMessage({ id: 'offline', text: 'offline' });
+    store2.getState().addMessage({ id: 'online', text: 'online' });
+    await waitFor(() => server.size > 0);
+
+    await store1.multiplayer.connect();
+    await waitForHydration(store1);
+
+    await waitFor(() => {
+      expect(store1.getState().messages).toHaveLength(2);
+      expect(store2.getState().messages).toEqual(store1.getState().messages);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it, expect, afterEach, beforeEach } from 'vitest';
+import { createLogger, LogLevel } from '../../src/monitoring/logger';
+import { createFileBackend } from '../../src/storage/file-backend';
+import type { WebStorageLike } from '../../src/storage/local-persistence';
+import { createLocalStorageBackend } from '../../src/storage/local-persistence';
+import { LocalStateCache } from '../../src/storage/local-state-cache';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import { StorageKeyManager } from '../../src/storage/storage-key-manager';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForDisconnection,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+function createWebStorage(): WebStorageLike & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: key => data.get(key) ?? null,
+    setItem: (key, value) => data.set(key, value),
+    removeItem: key => data.delete(key),
+  };
+}
+
+describe('Local Persistence Unit Tests', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'zustand-multiplayer-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should read, write and remove values in a JSON file', async () => {
+    const backend = createFileBackend(join(directory, 'state.json'));
+
+    expect(await backend.getItem('a')).toBeNull();
+
+    await Promise.all([backend.setItem('a', '1'), backend.setItem('b', '2')]);
+    await backend.removeItem('a');
+
+    expect(await backend.getItem('a')).toBeNull();
+    expect(await backend.getItem('b')).toBe('2');
+  });
+
+  it('should use the provided web storage object', async () => {
+    const storage = createWebStorage();
+    const backend = createLocalStorageBackend(storage);
+
+    await backend.setItem('a', '1');
+
+    expect(storage.data.get('a')).toBe('1');
+    expect(await backend.getItem('a')).toBe('1');
+  });
+
+  it('should round-trip snapshots per namespace', async () => {
+    const storage = createWebStorage();
+    const logger = createLogger(LogLevel.NONE);
+    const cache = new LocalStateCache(
+      createLocalStorageBackend(storage),
+      new StorageKeyManager('cache-test', 2),
+      logger,
+    );
+    const otherCache = new LocalStateCache(
+      createLocalStorageBackend(storage),
+      new StorageKeyManager('cache-test', 1),
+      logger,
+    );
+    const pendingChange = {
+      path: 'title',
+      key: 'cache-test-2:title',
+      operation: 'set' as const,
+      value: 'offline',
+      timestamp: 1,
+    };
+
+    await cache.save(new Map([['cache-test-2:title', 'offline']]), [pendingChange]);
+
+    const snapshot = await cache.load();
+    expect(snapshot?.items).toEqual({ 'cache-test-2:title': 'offline' });
+    expect(snapshot?.pendingChanges).toEqual([pendingChange]);
+    expect(await otherCache.load()).toBeNull();
+
+    await cache.clear();
+    expect(await cache.load()).toBeNull();
+  });
+
+  it('should ignore unreadable snapshots', async () => {
+    const storage = createWebStorage();
+    storage.setItem('cache-test-2', '{not json');
+    const cache = new LocalStateCache(
+      createLocalStorageBackend(storage),
+      new StorageKeyManager('cache-test', 2),
+      createLogger(LogLevel.NONE),
+    );
+
+    expect(await cache.load()).toBeNull();
+  });
+});
+
+describe('Multiplayer with local persistence', () => {
+  const server = new MemoryStorageServer();
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<TestState>>) {
+    return storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, options),
+    );
+  }
+
+  it('should restore unsynced changes after a reload and replay them', async () => {
+    const namespace = createUniqueStoreName('local-persistence');
+    const localPersistence = createLocalStorageBackend(createWebStorage());
+    const observer = createTestStore({ namespace });
+    const store1 = createTestStore({ namespace, localPersistence });
+    await waitForMultipleStores([observer, store1], 'hydrated');
+
+    await store1.multiplayer.disconnect();
+    await waitForDisconnection(store1);
+    store1.getState().setTitle('written offline');
+    store1.getState().increment();
+    await store1.multiplayer.destroy();
+
+    const store2 = createTestStore({ namespace, localPersistence });
+    expect(store2.getState().title).toBe('');
+
+    await waitForHydration(store2);
+
+    expect(store2.getState().title).toBe('written offline');
+    expect(store2.getState().counter).toBe(1);
+    expect(store2.multiplayer.getPendingChanges()).toHaveLength(0);
+    await waitFor(() => {
+      expect(observer.getState().title).toBe('written offline');
+      expect(observer.getState().counter).toBe(1);
+    });
+  });
+
+  it('should start from the last-known state before connecting', async () => {
+    const namespace = createUniqueStoreName('local-snapshot');
+    const localPersistence = createLocalStorageBackend(createWebStorage());
+    const store1 = createTestStore({ namespace, localPersistence });
+    await waitForHydration(store1);
+
+    store1.getState().updateNested2(7);
+    await waitFor(() => server.size > 0);
+    await store1.multiplayer.destroy();
+    server.reset();
+
+    const store2 = createTestStore({ namespace, localPersistence });
+    await waitFor(() => expect(store2.getState().nested.nested2.value).toBe(7));
+  });
+});
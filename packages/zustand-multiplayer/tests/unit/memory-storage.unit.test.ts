@@ -0,0 +1,185 @@
+import { ConnectionState } from '@hpkv/websocket-client';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createLogger, LogLevel } from '../../src/monitoring/logger';
+import { PerformanceMonitor } from '../../src/monitoring/profiler';
+import { MemoryStorage, MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { StorageChangeEvent } from '../../src/storage/storage-adapter';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+function createAdapter(server: MemoryStorageServer, subscribedKeys = ['todos', 'todos:*']) {
+  return new MemoryStorage(server, {
+    namespace: 'memory-test',
+    subscribedKeys,
+    logger: createLogger(LogLevel.NONE),
+    performanceMonitor: new PerformanceMonitor(),
+  });
+}
+
+describe('MemoryStorage Unit Tests', () => {
+  let server: MemoryStorageServer;
+
+  beforeEach(() => {
+    server = new MemoryStorageServer({ rangeLimit: 2 });
+  });
+
+  it('should report connection state changes to listeners', async () => {
+    const adapter = createAdapter(server);
+    const states: ConnectionState[] = [];
+    adapter.addConnectionListener(state => states.push(state));
+
+    await adapter.ensureConnection();
+    await adapter.close();
+
+    expect(states).toEqual([ConnectionState.CONNECTED, ConnectionState.DISCONNECTED]);
+    expect(adapter.getConnectionStatus()?.isConnected).toBe(false);
+  });
+
+  it('should page through range queries when results are truncated', async () => {
+    const adapter = createAdapter(server);
+    await adapter.setItem('memory-test:todos:a', 1);
+    await adapter.setItem('memory-test:todos:b', 2);
+    await adapter.setItem('memory-test:todos:c', 3);
+    await adapter.setItem('other-namespace:todos:a', 4);
+
+    const items = await adapter.getAllItems();
+
+    expect(Array.from(items, ([key, storedValue]) => [key, storedValue.value])).toEqual([
+      ['memory-test:todos:a', 1],
+      ['memory-test:todos:b', 2],
+      ['memory-test:todos:c', 3],
+    ]);
+  });
+
+  it('should not echo writes back to the writer', async () => {
+    const writer = createAdapter(server);
+    const reader = createAdapter(server);
+    const writerEvents: StorageChangeEvent[] = [];
+    const readerEvents: StorageChangeEvent[] = [];
+    writer.addChangeListener(event => writerEvents.push(event));
+    reader.addChangeListener(event => readerEvents.push(event));
+    await reader.ensureConnection();
+
+    await writer.setItem('memory-test:todos:a', { title: 'A' });
+    await writer.removeItem('memory-test:todos:a');
+
+    await waitFor(() => readerEvents.length === 2);
+    expect(readerEvents.map(({ key, value }) => ({ key, value }))).toEqual([
+      { key: 'todos:a', value: { title: 'A' } },
+      { key: 'todos:a', value: null },
+    ]);
+    // Like HPKV, deletions carry no envelope and are therefore delivered to every subscriber
+    expect(writerEvents.map(event => event.value)).toEqual([null]);
+  });
+
+  it('should only deliver notifications for subscribed keys', async () => {
+    const writer = createAdapter(server, ['title']);
+    const reader = createAdapter(server, ['title']);
+    const readerEvents: StorageChangeEvent[] = [];
+    reader.addChangeListener(event => readerEvents.push(event));
+    await reader.ensureConnection();
+
+    await writer.setItem('memory-test:todos:a', 'ignored');
+    await writer.setItem('memory-test:title', 'delivered');
+
+    await waitFor(() => readerEvents.length === 1);
+    expect(readerEvents[0].key).toBe('title');
+  });
+
+  it('should merge partial updates into the stored record', async () => {
+    const adapter = createAdapter(server);
+    await adapter.setItem('memory-test:todos', { a: { title: 'A' }, b: { title: 'B' } });
+    await adapter.setItem('memory-test:todos', { a: { done: true }, b: null });
+
+    const items = await adapter.getAllItems();
+
+    expect(items.get('memory-test:todos')?.value).toEqual({ a: { title: 'A', done: true } });
+  });
+
+  it('should report the writer and version of stored values', async () => {
+    const writer = createAdapter(server);
+    const reader = createAdapter(server);
+    const readerEvents: StorageChangeEvent[] = [];
+    reader.addChangeListener(event => readerEvents.push(event));
+    await reader.ensureConnection();
+
+    await writer.setItem('memory-test:todos:a', 'A', 1234);
+
+    await waitFor(() => readerEvents.length === 1);
+    expect(readerEvents[0]).toMatchObject({ timestamp: 1234, clientId: writer.getClientId() });
+    const items = await reader.getAllItems();
+    expect(items.get('memory-test:todos:a')).toEqual({
+      value: 'A',
+      timestamp: 1234,
+      clientId: writer.getClientId(),
+    });
+  });
+
+  it('should fail to remove a missing key', async () => {
+    const adapter = createAdapter(server);
+    await expect(adapter.removeItem('memory-test:missing')).rejects.toThrow(
+      'Failed to remove item',
+    );
+  });
+});
+
+describe('Multiplayer with MemoryStorage', () => {
+  const server = new MemoryStorageServer();
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<TestState>>) {
+    return storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, options),
+    );
+  }
+
+  it('should sync state between simulated clients', async () => {
+    const namespace = createUniqueStoreName('memory-sync');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().increment();
+    store1.getState().addTodo('Offline');
+    store2.getState().setTitle('From store 2');
+
+    await waitFor(() => {
+      expect(store2.getState().counter).toBe(1);
+      expect(store2.getState().todos['Offline'].title).toBe('Offline');
+      expect(store1.getState().title).toBe('From store 2');
+    });
+
+    store2.getState().removeTodo('Offline');
+    await waitFor(() => {
+      expect(store1.getState().todos['Offline']).toBeUndefined();
+    });
+  });
+
+  it('should hydrate a late joining client from the shared server', async () => {
+    const namespace = createUniqueStoreName('memory-hydration');
+    const store1 = createTestStore({ namespace });
+    await waitForMultipleStores([store1], 'hydrated');
+    store1.getState().updateNested2(42);
+    await waitFor(() => server.size > 0);
+
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store2], 'hydrated');
+
+    expect(store2.getState().nested.nested2.value).toBe(42);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { StateCreator } from 'zustand';
+import type { PendingChange } from '../../src/core/offline-queue';
+import { OfflineQueue } from '../../src/core/offline-queue';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForDisconnection,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+function createChange(key: string, overrides?: Partial<PendingChange>): PendingChange {
+  return { path: key, key, operation: 'set', value: key, timestamp: Date.now(), ...overrides };
+}
+
+describe('OfflineQueue Unit Tests', () => {
+  it('should dequeue changes in insertion order', () => {
+    const queue = new OfflineQueue();
+    queue.enqueue(createChange('a'));
+    queue.enqueue(createChange('b'));
+
+    expect(queue.dequeue()?.key).toBe('a');
+    expect(queue.dequeue()?.key).toBe('b');
+    expect(queue.dequeue()).toBeUndefined();
+  });
+
+  it('should coalesce changes per key and move them to the end', () => {
+    const queue = new OfflineQueue();
+    queue.enqueue(createChange('a', { value: 1 }));
+    queue.enqueue(createChange('b'));
+    queue.enqueue(createChange('a', { value: 2 }));
+
+    expect(queue.size).toBe(2);
+    expect(queue.getAll().map(change => [change.key, change.value])).toEqual([
+      ['b', 'b'],
+      ['a', 2],
+    ]);
+  });
+
+  it('should requeue a change at the front unless the key was updated meanwhile', () => {
+    const queue = new OfflineQueue();
+    queue.enqueue(createChange('a'));
+    queue.enqueue(createChange('b'));
+
+    const first = queue.dequeue()!;
+    queue.requeue(first);
+    expect(queue.getAll().map(change => change.key)).toEqual(['a', 'b']);
+
+    const again = queue.dequeue()!;
+    queue.enqueue(createChange('a', { value: 'newer' }));
+    queue.requeue(again);
+    expect(queue.get('a')?.value).toBe('newer');
+  });
+});
+
+describe('Multiplayer offline queue', () => {
+  const server = new MemoryStorageServer();
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<TestState>>) {
+    return storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, options),
+    );
+  }
+
+  it('should queue changes while disconnected and replay them on reconnect', async () => {
+    const namespace = createUniqueStoreName('offline-queue');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    await store1.multiplayer.disconnect();
+    await waitForDisconnection(store1);
+
+    store1.getState().setTitle('first');
+    store1.getState().setTitle('offline title');
+    store1.getState().addTodo('Offline todo');
+
+    expect(store1.getState().title).toBe('offline title');
+    expect(store1.multiplayer.getPendingChanges().map(change => change.path)).toEqual([
+      'title',
+      'todos.Offline%20todo.id',
+      'todos.Offline%20todo.title',
+      'todos.Offline%20todo.completed',
+    ]);
+    expect(store2.getState().title).toBe('');
+
+    await store1.multiplayer.connect();
+    await waitForHydration(store1);
+
+    expect(store1.multiplayer.getPendingChanges()).toHaveLength(0);
+    expect(store1.getState().title).toBe('offline title');
+    await waitFor(() => {
+      expect(store2.getState().title).toBe('offline title');
+      expect(store2.getState().todos['Offline todo'].title).toBe('Offline todo');
+    });
+  });
+
+  it('should keep offline deletions when coalescing patches', async () => {
+    interface TagState {
+      tags: Record<string, boolean>;
+      setTag: (tag: string) => void;
+      removeTag: (tag: string) => void;
+    }
+    const tagInitializer: StateCreator<TagState, [], []> = set => ({
+      tags: {},
+      setTag: tag => set(state => ({ tags: { ...state.tags, [tag]: true } })),
+      removeTag: tag =>
+        set(state => {
+          const { [tag]: _, ...rest } = state.tags;
+          return { tags: rest };
+        }),
+    });
+    const namespace = createUniqueStoreName('offline-coalesce');
+    const options = getMemoryMultiplayerOptions<TagState>(server, { namespace, zFactor: 0 });
+    const store1 = storeCreator.createStore<TagState>(tagInitializer, options);
+    const store2 = storeCreator.createStore<TagState>(tagInitializer, options);
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().setTag('a');
+    store1.getState().setTag('b');
+    await waitFor(() => expect(store2.getState().tags).toEqual({ a: true, b: true }));
+
+    await store1.multiplayer.disconnect();
+    store1.getState().removeTag('b');
+    store1.getState().setTag('c');
+    expect(store1.multiplayer.getPendingChanges()).toHaveLength(1);
+
+    await store1.multiplayer.connect();
+    await waitForHydration(store1);
+
+    await waitFor(() => expect(store2.getState().tags).toEqual({ a: true, c: true }));
+    expect(store1.getState().tags).toEqual({ a: true, c: true });
+  });
+
+  it('should queue changes made before the first connection', async () => {
+    const namespace = createUniqueStoreName('offline-initial');
+    const store1 = createTestStore({ namespace });
+    store1.getState().increment();
+
+    await waitForHydration(store1);
+    expect(store1.getState().counter).toBe(1);
+
+    const store2 = createTestStore({ namespace });
+    await waitForHydration(store2);
+    expect(store2.getState().counter).toBe(1);
+  });
+});
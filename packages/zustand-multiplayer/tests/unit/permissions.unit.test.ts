@@ -0,0 +1,164 @@
+import { WebsocketTokenManager } from '@hpkv/websocket-client';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { TokenPermissions } from '../../src/auth/token-helper';
+import { TokenHelper } from '../../src/auth/token-helper';
+import { getWriteDenial } from '../../src/core/write-permissions';
+import { MemoryStorage, MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { StorageTokenListener } from '../../src/storage/storage-adapter';
+import type { MultiplayerEvents } from '../../src/types/multiplayer-types';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import { createUniqueStoreName, getMemoryMultiplayerOptions, waitForHydration } from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+describe('getWriteDenial', () => {
+  it('should permit all writes without permissions', () => {
+    expect(getWriteDenial(undefined, ['title'])).toBeNull();
+    expect(getWriteDenial({}, ['title'])).toBeNull();
+  });
+
+  it('should deny all writes with a read-only token', () => {
+    expect(getWriteDenial({ readOnly: true }, ['todos', '1'])).toBe(
+      "Cannot write 'todos.1': the access token is read-only",
+    );
+  });
+
+  it('should permit writable paths and the paths below them', () => {
+    const permissions: TokenPermissions = { writablePaths: ['title', 'nested.value'] };
+
+    expect(getWriteDenial(permissions, ['title'])).toBeNull();
+    expect(getWriteDenial(permissions, ['nested', 'value'])).toBeNull();
+    expect(getWriteDenial(permissions, ['nested', 'value', 'deep'])).toBeNull();
+    expect(getWriteDenial(permissions, ['nested'])).toBe(
+      "Cannot write 'nested': the access token does not permit writing this path",
+    );
+    expect(getWriteDenial(permissions, ['titles'])).not.toBeNull();
+    expect(getWriteDenial({ writablePaths: [] }, ['title'])).not.toBeNull();
+  });
+});
+
+describe('TokenHelper', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should add the permissions decided by the policy to the token response', async () => {
+    const generateToken = vi
+      .spyOn(WebsocketTokenManager.prototype, 'generateToken')
+      .mockResolvedValue('token');
+    const policy = vi.fn(() => Promise.resolve({ writablePaths: ['title'] }));
+    const tokenHelper = new TokenHelper('api-key', 'https://example.com');
+
+    const response = await tokenHelper.processTokenRequest(
+      { namespace: 'permissions', subscribedKeysAndPatterns: ['permissions:*'] },
+      policy,
+    );
+
+    expect(policy).toHaveBeenCalledWith({
+      namespace: 'permissions',
+      subscribedKeysAndPatterns: ['permissions:*'],
+    });
+    expect(generateToken).toHaveBeenCalledTimes(1);
+    expect(response).toEqual({
+      namespace: 'permissions',
+      token: 'token',
+      permissions: { writablePaths: ['title'] },
+    });
+  });
+
+  it('should not issue a token if the policy refuses the request', async () => {
+    const generateToken = vi.spyOn(WebsocketTokenManager.prototype, 'generateToken');
+    const tokenHelper = new TokenHelper('api-key', 'https://example.com');
+
+    await expect(
+      tokenHelper.processTokenRequest({ namespace: 'permissions' }, () => {
+        throw new Error('Not signed in');
+      }),
+    ).rejects.toThrow('Not signed in');
+    expect(generateToken).not.toHaveBeenCalled();
+  });
+});
+
+describe('Multiplayer write permissions', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  /**
+   * Creates a store whose storage adapter issues tokens through `issueToken`
+   */
+  function createTestStore(namespace: string) {
+    const tokenListeners = new Set<StorageTokenListener>();
+    const store = storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, {
+        namespace,
+        zFactor: 1,
+        storage: context =>
+          Object.assign(new MemoryStorage(server, context), {
+            addTokenListener: (listener: StorageTokenListener) => {
+              tokenListeners.add(listener);
+              return () => tokenListeners.delete(listener);
+            },
+          }),
+      }),
+    );
+    const issueToken = (expiresAt: number, permissions?: TokenPermissions) =>
+      tokenListeners.forEach(listener => listener(expiresAt, permissions));
+    return { store, issueToken };
+  }
+
+  it('should refuse local writes with a read-only token', async () => {
+    const namespace = createUniqueStoreName('permissions-read-only');
+    const { store, issueToken } = createTestStore(namespace);
+    issueToken(Date.now() + 60000, { readOnly: true });
+    await waitForHydration(store);
+    const errors: Array<MultiplayerEvents['syncError']> = [];
+    store.multiplayer.on('syncError', payload => errors.push(payload));
+
+    await expect(store.multiplayer.setAndSync({ title: 'hello' })).rejects.toThrow(
+      "Cannot write 'title': the access token is read-only",
+    );
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].path).toEqual(['title']);
+    expect(server.get(`${namespace}-1:title`)).toBeUndefined();
+    expect(store.getState().title).toBe('');
+    expect(store.multiplayer.canUndo()).toBe(false);
+  });
+
+  it('should only write the paths the token permits', async () => {
+    const namespace = createUniqueStoreName('permissions-paths');
+    const { store, issueToken } = createTestStore(namespace);
+    issueToken(Date.now() + 60000, { writablePaths: ['todos'] });
+    await waitForHydration(store);
+
+    await store.multiplayer.setAndSync({
+      todos: { '1': { id: '1', title: 'Write tests', completed: false } },
+    });
+    await expect(store.multiplayer.setAndSync({ counter: 1 })).rejects.toThrow(
+      "Cannot write 'counter': the access token does not permit writing this path",
+    );
+
+    expect(server.get(`${namespace}-1:todos:1`)).toBeDefined();
+    expect(server.get(`${namespace}-1:counter`)).toBeUndefined();
+    expect(store.getState().counter).toBe(0);
+    expect(store.getState().todos['1'].title).toBe('Write tests');
+  });
+
+  it('should report the permissions of new tokens', async () => {
+    const { store, issueToken } = createTestStore(createUniqueStoreName('permissions-event'));
+    await waitForHydration(store);
+    const refreshed = vi.fn();
+    store.multiplayer.on('tokenRefreshed', refreshed);
+
+    issueToken(12345, { readOnly: true });
+
+    expect(refreshed).toHaveBeenCalledWith({ expiresAt: 12345, permissions: { readOnly: true } });
+  });
+});
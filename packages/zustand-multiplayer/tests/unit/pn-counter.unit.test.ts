@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { counter } from '../../src/crdt/field-types';
+import { PNCounter } from '../../src/crdt/pn-counter';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForDisconnection,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+describe('PNCounter Unit Tests', () => {
+  it('should track increments and decrements per client', () => {
+    const pnCounter = new PNCounter();
+
+    expect(pnCounter.add('a', 3)).toEqual({ p: 3, n: 0 });
+    expect(pnCounter.add('a', -1)).toEqual({ p: 3, n: 1 });
+    pnCounter.add('b', 5);
+
+    expect(pnCounter.value).toBe(7);
+  });
+
+  it('should merge entries idempotently regardless of order', () => {
+    const replica1 = new PNCounter();
+    const replica2 = new PNCounter();
+
+    replica1.merge('a', { p: 2, n: 0 });
+    replica1.merge('a', { p: 1, n: 0 });
+    replica1.merge('b', { p: 0, n: 4 });
+    replica2.merge('b', { p: 0, n: 4 });
+    replica2.merge('a', { p: 1, n: 0 });
+    replica2.merge('a', { p: 2, n: 0 });
+    replica2.merge('a', { p: 2, n: 0 });
+
+    expect(replica1.value).toBe(-2);
+    expect(replica2.getEntries()).toEqual(replica1.getEntries().reverse());
+  });
+
+  it('should ignore invalid entries', () => {
+    const pnCounter = new PNCounter();
+
+    expect(pnCounter.merge('a', 5)).toBe(false);
+    expect(pnCounter.merge('a', { p: '1', n: 0 })).toBe(false);
+    expect(pnCounter.value).toBe(0);
+  });
+});
+
+describe('Multiplayer counter fields', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<TestState>>) {
+    return storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, { fieldTypes: { counter: counter() }, ...options }),
+    );
+  }
+
+  it('should converge concurrent increments to the correct total', async () => {
+    const namespace = createUniqueStoreName('counter-concurrent');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    for (let i = 0; i < 5; i++) {
+      store1.getState().increment();
+      store2.getState().increment();
+    }
+    store2.getState().decrement();
+
+    await waitFor(() => {
+      expect(store1.getState().counter).toBe(9);
+      expect(store2.getState().counter).toBe(9);
+    });
+
+    const store3 = createTestStore({ namespace });
+    await waitForHydration(store3);
+    expect(store3.getState().counter).toBe(9);
+  });
+
+  it('should merge increments made while offline', async () => {
+    const namespace = createUniqueStoreName('counter-offline');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    await store1.multiplayer.disconnect();
+    await waitForDisconnection(store1);
+    store1.getState().increment();
+    store1.getState().increment();
+    store2.getState().increment();
+    await waitFor(() => server.size > 0);
+
+    await store1.multiplayer.connect();
+    await waitForHydration(store1);
+
+    await waitFor(() => {
+      expect(store1.getState().counter).toBe(3);
+      expect(store2.getState().counter).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { PresenceEntry } from '../../src/core/presence-manager';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+interface Cursor {
+  x: number;
+  y: number;
+}
+
+describe('Multiplayer presence', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<TestState>>) {
+    return storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, {
+        presence: { heartbeatInterval: 50, timeout: 200 },
+        ...options,
+      }),
+    );
+  }
+
+  function getOthers(store: ReturnType<typeof createTestStore>): PresenceEntry<Cursor>[] {
+    return store.multiplayer.presence.getAll<Cursor>().filter(entry => !entry.isSelf);
+  }
+
+  it('should share presence between clients', async () => {
+    const namespace = createUniqueStoreName('presence-share');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    const updates: PresenceEntry[][] = [];
+    store2.multiplayer.onPresenceChange(entries => updates.push(entries));
+    await store1.multiplayer.presence.set({ x: 1, y: 2 });
+
+    await waitFor(() => {
+      expect(getOthers(store2)).toEqual([
+        expect.objectContaining({ data: { x: 1, y: 2 }, isSelf: false }),
+      ]);
+    });
+    expect(updates.length).toBeGreaterThan(0);
+    expect(store1.multiplayer.presence.getAll()).toEqual([
+      expect.objectContaining({ data: { x: 1, y: 2 }, isSelf: true }),
+    ]);
+
+    await store1.multiplayer.presence.set({ x: 3, y: 2 });
+    await waitFor(() => expect(getOthers(store2)[0]?.data).toEqual({ x: 3, y: 2 }));
+  });
+
+  it('should not hydrate presence into the store state', async () => {
+    const namespace = createUniqueStoreName('presence-hydration');
+    const store1 = createTestStore({ namespace });
+    await waitForHydration(store1);
+    await store1.multiplayer.presence.set({ x: 1, y: 1 });
+
+    const store2 = createTestStore({ namespace });
+    await waitForHydration(store2);
+
+    expect(getOthers(store2)).toHaveLength(1);
+    expect(Object.keys(store2.getState())).toEqual(Object.keys(store1.getState()));
+  });
+
+  it('should remove the entry of a client that disconnects', async () => {
+    const namespace = createUniqueStoreName('presence-disconnect');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    await store1.multiplayer.presence.set({ x: 1, y: 1 });
+    await waitFor(() => expect(getOthers(store2)).toHaveLength(1));
+
+    await store1.multiplayer.disconnect();
+
+    await waitFor(() => expect(getOthers(store2)).toHaveLength(0));
+    const presencePrefix = `${namespace}-2:$presence:`;
+    expect(server.range(presencePrefix, `${presencePrefix}\xff`).records).toHaveLength(0);
+  });
+
+  it('should expire entries without heartbeat', async () => {
+    const namespace = createUniqueStoreName('presence-expiry');
+    const store = createTestStore({ namespace });
+    await waitForHydration(store);
+
+    // A client that went away without removing its entry
+    const key = `${namespace}-2:$presence:crashed-client`;
+    const record = {
+      value: { data: { x: 0, y: 0 }, updatedAt: Date.now() },
+      timestamp: Date.now(),
+    };
+    server.set(key, JSON.stringify(record));
+    await waitFor(() => expect(getOthers(store)).toHaveLength(1));
+
+    await waitFor(() => expect(getOthers(store)).toHaveLength(0));
+    await waitFor(() => expect(server.get(key)).toBeUndefined());
+  });
+
+  it('should remove entries that expired while no client was online', async () => {
+    const namespace = createUniqueStoreName('presence-stale');
+    const key = `${namespace}-2:$presence:departed-client`;
+    const record = {
+      value: { data: { x: 0, y: 0 }, updatedAt: Date.now() - 10000 },
+      timestamp: Date.now() - 10000,
+    };
+    server.set(key, JSON.stringify(record));
+
+    const store = createTestStore({ namespace });
+    await waitForHydration(store);
+
+    expect(getOthers(store)).toHaveLength(0);
+    await waitFor(() => expect(server.get(key)).toBeUndefined());
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { FieldValidator, StandardSchemaV1 } from '../../src/core/schema-validator';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { MultiplayerEvents, MultiplayerOptions } from '../../src/types/multiplayer-types';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+const titleValidator: FieldValidator = {
+  validate: value => (typeof value === 'string' ? [] : ['Expected a string']),
+};
+
+/**
+ * Standard Schema as implemented by libraries such as zod
+ */
+const counterSchema: StandardSchemaV1 = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: value =>
+      typeof value === 'number' && value >= 0
+        ? { value }
+        : { issues: [{ message: 'Expected a non-negative number' }] },
+  },
+};
+
+describe('Multiplayer schema validation', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<TestState>>) {
+    return storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, options),
+    );
+  }
+
+  async function createStorePair(options: Partial<MultiplayerOptions<TestState>>) {
+    const namespace = createUniqueStoreName('schema');
+    const validated = createTestStore({
+      namespace,
+      schema: { title: titleValidator, counter: counterSchema },
+      ...options,
+    });
+    const writer = createTestStore({ namespace });
+    await waitForMultipleStores([validated, writer], 'hydrated');
+    const errors: Array<MultiplayerEvents['validationError']> = [];
+    validated.multiplayer.on('validationError', payload => errors.push(payload));
+    return { validated, writer, errors };
+  }
+
+  it('should reject invalid remote values by default', async () => {
+    const { validated, writer, errors } = await createStorePair({});
+
+    writer.setState({ title: 42 as unknown as string });
+    writer.getState().increment();
+
+    await waitFor(() => expect(validated.getState().counter).toBe(1));
+    expect(validated.getState().title).toBe('');
+    expect(errors).toEqual([
+      { field: 'title', value: 42, issues: ['Expected a string'], policy: 'reject' },
+    ]);
+  });
+
+  it('should validate with Standard Schemas', async () => {
+    const { validated, writer, errors } = await createStorePair({});
+
+    writer.setState({ counter: -5 });
+
+    await waitFor(() => expect(errors).toHaveLength(1));
+    expect(errors[0].issues).toEqual(['Expected a non-negative number']);
+    expect(validated.getState().counter).toBe(0);
+  });
+
+  it('should repair invalid remote values with the initial value', async () => {
+    const { validated, writer, errors } = await createStorePair({ schemaPolicy: 'repair' });
+    await validated.multiplayer.setAndSync({ title: 'local' });
+    await waitFor(() => expect(writer.getState().title).toBe('local'));
+
+    writer.setState({ title: false as unknown as string });
+
+    await waitFor(() => expect(errors).toHaveLength(1));
+    expect(validated.getState().title).toBe('');
+  });
+
+  it('should apply invalid remote values when reporting only', async () => {
+    const { validated, writer, errors } = await createStorePair({ schemaPolicy: 'report' });
+
+    writer.setState({ counter: -1 });
+
+    await waitFor(() => expect(validated.getState().counter).toBe(-1));
+    expect(errors).toHaveLength(1);
+  });
+
+  it('should validate hydrated values', async () => {
+    const namespace = createUniqueStoreName('schema-hydrate');
+    const writer = createTestStore({ namespace });
+    await waitForHydration(writer);
+    await writer.multiplayer.setAndSync({ title: 7 as unknown as string, counter: 3 });
+
+    const validated = createTestStore({ namespace, schema: { title: titleValidator } });
+    await waitForHydration(validated);
+
+    expect(validated.getState().title).toBe('');
+    expect(validated.getState().counter).toBe(3);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { Serializer } from '../../src/storage/serializer';
+import { taggedJsonSerializer } from '../../src/storage/serializer';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import { applyMergePatch } from '../../src/utils';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+function roundTrip(value: unknown): unknown {
+  const serialized = taggedJsonSerializer.serialize(value);
+  return taggedJsonSerializer.deserialize(JSON.parse(JSON.stringify(serialized)));
+}
+
+describe('taggedJsonSerializer', () => {
+  it('should keep JSON values as they are', () => {
+    const value = { title: 'x', count: 1, done: false, tags: ['a'], parent: null };
+    expect(taggedJsonSerializer.serialize(value)).toEqual(value);
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('should round-trip rich types', () => {
+    const value = {
+      createdAt: new Date('2024-01-02T03:04:05.000Z'),
+      lookup: new Map<unknown, unknown>([
+        ['a', 1],
+        [2, new Set(['nested'])],
+      ]),
+      tags: new Set(['x', 'y']),
+      big: 12345678901234567890n,
+      missing: undefined,
+      infinite: -Infinity,
+      bytes: new Uint8Array([1, 2, 255]),
+      floats: new Float64Array([0.5, -1]),
+      bigs: new BigInt64Array([-1n, 2n]),
+    };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('should round-trip arrays that look like tagged values', () => {
+    const value = { pair: ['~Date', 'not a date'], single: ['~x'] };
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('should replace tagged values as a whole when applied as merge patches', () => {
+    const stored = taggedJsonSerializer.serialize({ due: new Date(0) });
+    const patched = applyMergePatch(stored, taggedJsonSerializer.serialize({ due: { day: 1 } }));
+    expect(taggedJsonSerializer.deserialize(patched)).toEqual({ due: { day: 1 } });
+  });
+
+  it('should keep unknown tags written by other serializers', () => {
+    expect(taggedJsonSerializer.deserialize(['~Unknown', 1])).toEqual(['~Unknown', 1]);
+  });
+});
+
+interface RichState {
+  dueDate: Date | null;
+  members: Set<string>;
+  scores: Map<string, bigint>;
+  setDueDate: (date: Date) => void;
+  addMember: (name: string) => void;
+  setScore: (name: string, score: bigint) => void;
+}
+
+describe('Multiplayer serialization', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createRichStore(
+    namespace: string,
+    options: Partial<MultiplayerOptions<RichState>> = { serializer: taggedJsonSerializer },
+  ) {
+    return storeCreator.createStore<RichState>(
+      set => ({
+        dueDate: null,
+        members: new Set(),
+        scores: new Map(),
+        setDueDate: date => set({ dueDate: date }),
+        addMember: name => set(state => ({ members: new Set([...state.members, name]) })),
+        setScore: (name, score) =>
+          set(state => ({ scores: new Map([...state.scores, [name, score]]) })),
+      }),
+      getMemoryMultiplayerOptions(server, { namespace, ...options }),
+    );
+  }
+
+  it('should sync and hydrate rich types', async () => {
+    const namespace = createUniqueStoreName('serializer-sync');
+    const store1 = createRichStore(namespace);
+    const store2 = createRichStore(namespace);
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().setDueDate(new Date('2024-06-01T00:00:00.000Z'));
+    store1.getState().addMember('ada');
+    store1.getState().setScore('ada', 10n ** 20n);
+
+    await waitFor(() => {
+      expect(store2.getState().dueDate).toEqual(new Date('2024-06-01T00:00:00.000Z'));
+      expect(store2.getState().members).toEqual(new Set(['ada']));
+      expect(store2.getState().scores).toEqual(new Map([['ada', 10n ** 20n]]));
+    });
+
+    const lateJoiner = createRichStore(namespace);
+    await waitForHydration(lateJoiner);
+    expect(lateJoiner.getState().dueDate).toBeInstanceOf(Date);
+    expect(lateJoiner.getState().members).toEqual(new Set(['ada']));
+  });
+
+  it('should detect changes between equal-looking instances', async () => {
+    const namespace = createUniqueStoreName('serializer-dates');
+    const store1 = createRichStore(namespace);
+    const store2 = createRichStore(namespace);
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().setDueDate(new Date(1000));
+    await waitFor(() => expect(store2.getState().dueDate).toEqual(new Date(1000)));
+    store1.getState().setDueDate(new Date(2000));
+
+    await waitFor(() => expect(store2.getState().dueDate).toEqual(new Date(2000)));
+  });
+
+  it('should use a custom serializer', async () => {
+    const namespace = createUniqueStoreName('serializer-custom');
+    const serializer: Serializer = {
+      serialize: value => (value instanceof Date ? value.getTime() : value),
+      deserialize: value => value,
+    };
+    const store = createRichStore(namespace, { serializer });
+    await waitForHydration(store);
+
+    await store.multiplayer.setAndSync({ dueDate: new Date(1000) });
+
+    expect(JSON.parse(server.get(`${namespace}-2:dueDate`)!).value).toBe(1000);
+  });
+
+  it('should store plain JSON by default, as clients of earlier versions do', async () => {
+    const namespace = createUniqueStoreName('serializer-default');
+    const store = createRichStore(namespace, {});
+    await waitForHydration(store);
+
+    await store.multiplayer.setAndSync({ dueDate: new Date(0) });
+
+    expect(JSON.parse(server.get(`${namespace}-2:dueDate`)!).value).toBe(
+      '1970-01-01T00:00:00.000Z',
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import { createUniqueStoreName, getMemoryMultiplayerOptions, waitForHydration } from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+/**
+ * Shape of the state before `title` and `counter` were introduced
+ */
+interface LegacyState {
+  name: string;
+  count: number;
+}
+
+const migrate = (oldState: unknown) => {
+  const { name, count, ...rest } = oldState as LegacyState;
+  return Promise.resolve({ ...rest, title: name, counter: count });
+};
+
+describe('Multiplayer state versioning', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<TestState>>) {
+    return storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, options),
+    );
+  }
+
+  async function createLegacyStore(namespace: string) {
+    const store = storeCreator.createStore<LegacyState>(
+      () => ({ name: '', count: 0 }),
+      getMemoryMultiplayerOptions(server, { namespace }),
+    );
+    await waitForHydration(store);
+    return store;
+  }
+
+  function getStoredValue(key: string): unknown {
+    const stored = server.get(key);
+    return stored === undefined ? undefined : (JSON.parse(stored) as { value: unknown }).value;
+  }
+
+  it('should migrate older state during hydration and write it back', async () => {
+    const namespace = createUniqueStoreName('version-migrate');
+    const legacy = await createLegacyStore(namespace);
+    await legacy.multiplayer.setAndSync({ name: 'Board', count: 2 });
+
+    const migrateSpy = vi.fn(migrate);
+    const store = createTestStore({ namespace, version: 1, migrate: migrateSpy });
+    await waitForHydration(store);
+
+    expect(migrateSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Board', count: 2 }),
+      0,
+    );
+    expect(store.getState().title).toBe('Board');
+    expect(store.getState().counter).toBe(2);
+    expect(getStoredValue(`${namespace}-2:title`)).toBe('Board');
+    expect(getStoredValue(`${namespace}-2:name`)).toBeUndefined();
+    expect(getStoredValue(`${namespace}-2:$version`)).toEqual({ version: 1 });
+
+    const lateJoinerMigrate = vi.fn(migrate);
+    const lateJoiner = createTestStore({ namespace, version: 1, migrate: lateJoinerMigrate });
+    await waitForHydration(lateJoiner);
+    expect(lateJoinerMigrate).not.toHaveBeenCalled();
+    expect(lateJoiner.getState().title).toBe('Board');
+  });
+
+  it('should record the version of a new namespace without migrating', async () => {
+    const namespace = createUniqueStoreName('version-new');
+    const migrateSpy = vi.fn(migrate);
+    const store = createTestStore({ namespace, version: 3, migrate: migrateSpy });
+    await waitForHydration(store);
+
+    expect(migrateSpy).not.toHaveBeenCalled();
+    expect(getStoredValue(`${namespace}-2:$version`)).toEqual({ version: 3 });
+  });
+
+  it('should refuse writes from clients on an older version', async () => {
+    const namespace = createUniqueStoreName('version-outdated');
+    const legacy = await createLegacyStore(namespace);
+    const store = createTestStore({ namespace, version: 1, migrate });
+    await waitForHydration(store);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    await expect(legacy.multiplayer.setAndSync({ name: 'stale' })).rejects.toThrow(
+      'State version 0 is older than the stored version 1',
+    );
+    expect(legacy.getState().name).toBe('stale');
+    expect(getStoredValue(`${namespace}-2:name`)).toBeUndefined();
+
+    const lateLegacy = await createLegacyStore(namespace);
+    await expect(lateLegacy.multiplayer.setAndSync({ count: 5 })).rejects.toThrow();
+    expect(lateLegacy.multiplayer.getSyncStatus('count')).toBe('failed');
+  });
+
+  it('should keep stored state as is without a migrate function', async () => {
+    const namespace = createUniqueStoreName('version-no-migrate');
+    const writer = createTestStore({ namespace });
+    await waitForHydration(writer);
+    await writer.multiplayer.setAndSync({ title: 'kept' });
+
+    const store = createTestStore({ namespace, version: 1 });
+    await waitForHydration(store);
+
+    expect(store.getState().title).toBe('kept');
+    expect(getStoredValue(`${namespace}-2:$version`)).toEqual({ version: 1 });
+  });
+});
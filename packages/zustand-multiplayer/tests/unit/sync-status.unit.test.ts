@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { MemoryStorage, MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForHydration,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+describe('Multiplayer sync status', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<TestState>>) {
+    return storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, options),
+    );
+  }
+
+  it('should resolve setAndSync once the change is written', async () => {
+    const namespace = createUniqueStoreName('sync-ack');
+    const store = createTestStore({ namespace });
+    await waitForHydration(store);
+
+    const sync = store.multiplayer.setAndSync({ title: 'saved' });
+    expect(store.getState().title).toBe('saved');
+    expect(store.multiplayer.getSyncStatus('title')).toBe('pending');
+    expect(store.getState().multiplayer.pendingWrites).toBe(1);
+
+    await sync;
+    expect(JSON.parse(server.get(`${namespace}-2:title`)!).value).toBe('saved');
+    expect(store.multiplayer.getSyncStatus('title')).toBe('synced');
+    expect(store.getState().multiplayer.pendingWrites).toBe(0);
+  });
+
+  it('should report nested paths as pending until their keys are written', async () => {
+    const store = createTestStore({ batching: { interval: 60000 } });
+    await waitForHydration(store);
+
+    store.getState().addTodo('batched');
+    const [id] = Object.keys(store.getState().todos);
+
+    expect(store.multiplayer.getSyncStatus('todos')).toBe('pending');
+    expect(store.multiplayer.getSyncStatus(['todos', id, 'title'])).toBe('pending');
+    expect(store.multiplayer.getSyncStatus('title')).toBe('synced');
+
+    await store.multiplayer.flush();
+    expect(store.multiplayer.getSyncStatus('todos')).toBe('synced');
+  });
+
+  it('should resolve setAndSync for offline changes once they are flushed', async () => {
+    const store = createTestStore();
+    await waitForHydration(store);
+    await store.multiplayer.disconnect();
+
+    let acknowledged = false;
+    const sync = store.multiplayer.setAndSync({ counter: 3 }).then(() => {
+      acknowledged = true;
+    });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(acknowledged).toBe(false);
+    expect(store.getState().multiplayer.pendingWrites).toBe(1);
+
+    await store.multiplayer.connect();
+    await sync;
+    expect(store.multiplayer.getSyncStatus('counter')).toBe('synced');
+  });
+
+  it('should reject setAndSync and report failed writes', async () => {
+    const store = createTestStore({
+      storage: context => {
+        const storage = new MemoryStorage(server, context);
+        vi.spyOn(storage, 'setItem').mockRejectedValue(new Error('Quota exceeded'));
+        return storage;
+      },
+    });
+    await waitForHydration(store);
+
+    await expect(store.multiplayer.setAndSync({ title: 'lost' })).rejects.toThrow('Quota exceeded');
+    expect(store.multiplayer.getSyncStatus('title')).toBe('failed');
+    await waitFor(() => expect(store.getState().multiplayer.pendingWrites).toBe(0));
+  });
+
+  it('should report failed writes of set without rejecting', async () => {
+    const store = createTestStore({
+      storage: context => {
+        const storage = new MemoryStorage(server, context);
+        vi.spyOn(storage, 'setItem').mockRejectedValue(new Error('Quota exceeded'));
+        return storage;
+      },
+    });
+    await waitForHydration(store);
+    const syncError = vi.fn();
+    store.multiplayer.on('syncError', syncError);
+
+    store.setState({ title: 'lost' });
+
+    await waitFor(() => expect(store.multiplayer.getSyncStatus('title')).toBe('failed'));
+    expect(syncError).toHaveBeenCalledWith({ path: ['title'], error: expect.any(Error) });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { StateCreator } from 'zustand';
+import type { CrdtFieldWrite } from '../../src/crdt/crdt-field';
+import { text } from '../../src/crdt/field-types';
+import { TextField } from '../../src/crdt/text-field';
+import { Logger, LogLevel } from '../../src/monitoring/logger';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForDisconnection,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+interface NoteState {
+  body: string;
+  setBody: (body: string) => void;
+}
+
+function createTextField(clientId: string): TextField {
+  return new TextField({ field: 'body', clientId, logger: new Logger(LogLevel.NONE) });
+}
+
+function deliver(writes: CrdtFieldWrite[], clientId: string, ...replicas: TextField[]): void {
+  for (const write of writes) {
+    replicas.forEach(replica => replica.applyRemoteChange(clientId, write.value));
+  }
+}
+
+describe('TextField Unit Tests', () => {
+  it('should apply insert and delete operations', () => {
+    const field = createTextField('a');
+
+    field.applyOperations([{ type: 'insert', index: 0, text: 'Hello world' }]);
+    field.applyOperations([
+      { type: 'delete', index: 5, length: 6 },
+      { type: 'insert', index: 5, text: ', there' },
+    ]);
+
+    expect(field.getValue()).toBe('Hello, there');
+  });
+
+  it('should merge concurrent edits at the same position on all replicas', () => {
+    const replicaA = createTextField('a');
+    const replicaB = createTextField('b');
+    deliver(replicaA.applyOperations([{ type: 'insert', index: 0, text: 'ac' }]), 'a', replicaB);
+
+    const writesA = replicaA.applyOperations([{ type: 'insert', index: 1, text: 'X' }]);
+    const writesB = replicaB.applyOperations([{ type: 'insert', index: 1, text: 'Y' }]);
+    deliver(writesA, 'a', replicaB);
+    deliver(writesB, 'b', replicaA);
+
+    expect(replicaA.getValue()).toHaveLength(4);
+    expect(replicaA.getValue()).toBe(replicaB.getValue());
+    expect(replicaA.getValue()).toMatch(/^a(XY|YX)c$/);
+  });
+
+  it('should keep inserts next to concurrently deleted text', () => {
+    const replicaA = createTextField('a');
+    const replicaB = createTextField('b');
+    deliver(replicaA.applyOperations([{ type: 'insert', index: 0, text: 'abc' }]), 'a', replicaB);
+
+    const writesA = replicaA.applyLocalChange('abc', 'ac');
+    const writesB = replicaB.applyLocalChange('abc', 'abXc');
+    deliver(writesA, 'a', replicaB);
+    deliver(writesB, 'b', replicaA);
+
+    expect(replicaA.getValue()).toBe('aXc');
+    expect(replicaB.getValue()).toBe('aXc');
+  });
+
+  it('should only sync the changed characters', () => {
+    const field = createTextField('a');
+    field.applyLocalChange('', 'hello');
+
+    const writes = field.applyLocalChange('hello', 'help');
+
+    expect(writes).toHaveLength(1);
+    expect(Object.keys((writes[0].value as { deleted: object }).deleted)).toHaveLength(2);
+    expect(Object.values((writes[0].value as { runs: object }).runs)).toEqual([
+      { origin: expect.any(String), text: 'p' },
+    ]);
+  });
+});
+
+describe('Multiplayer text fields', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+  const initializer: StateCreator<NoteState, [], []> = set => ({
+    body: '',
+    setBody: body => set({ body }),
+  });
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<NoteState>>) {
+    return storeCreator.createStore<NoteState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, { fieldTypes: { body: text() }, ...options }),
+    );
+  }
+
+  it('should merge edits made through editText and setState', async () => {
+    const namespace = createUniqueStoreName('text-concurrent');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    await store1.multiplayer.editText('body', [{ type: 'insert', index: 0, text: 'hello world' }]);
+    await waitFor(() => expect(store2.getState().body).toBe('hello world'));
+
+    store1.getState().setBody('Hello world');
+    await store2.multiplayer.editText('body', [{ type: 'insert', index: 11, text: '!' }]);
+
+    await waitFor(() => {
+      expect(store1.getState().body).toBe('Hello world!');
+      expect(store2.getState().body).toBe('Hello world!');
+    });
+
+    const store3 = createTestStore({ namespace });
+    await waitForHydration(store3);
+    expect(store3.getState().body).toBe('Hello world!');
+  });
+
+  it('should merge edits made while offline', async () => {
+    const namespace = createUniqueStoreName('text-offline');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().setBody('shared');
+    await waitFor(() => expect(store2.getState().body).toBe('shared'));
+
+    await store1.multiplayer.disconnect();
+    await waitForDisconnection(store1);
+    store1.getState().setBody('shared notes');
+    store2.getState().setBody('my shared');
+    await waitFor(() => expect(server.size).toBeGreaterThan(0));
+
+    await store1.multiplayer.connect();
+    await waitForHydration(store1);
+
+    await waitFor(() => {
+      expect(store1.getState().body).toBe('my shared notes');
+      expect(store2.getState().body).toBe('my shared notes');
+    });
+  });
+
+  it('should reject editText for fields that are not text fields', async () => {
+    const store = createTestStore({ fieldTypes: {} });
+    await waitForHydration(store);
+
+    await expect(
+      store.multiplayer.editText('body', [{ type: 'insert', index: 0, text: 'x' }]),
+    ).rejects.toThrow("Field 'body' is not a text field");
+  });
+});
@@ -0,0 +1,237 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebsocketTokenManager } from '@hpkv/websocket-client';
+import type { MockInstance } from 'vitest';
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import type { NodeRequestLike, TokenHandlerOptions } from '../../src/auth/token-handlers';
+import { createFetchTokenHandler, createNodeTokenHandler } from '../../src/auth/token-handlers';
+import { createLogger, LogLevel } from '../../src/monitoring/logger';
+import { MAX_TOKEN_REQUEST_SIZE } from '../../src/utils/constants';
+
+const tokenRequest = { namespace: 'my-app-2', subscribedKeysAndPatterns: ['my-app-2:*'] };
+
+function createOptions<TRequest>(
+  overrides: Partial<TokenHandlerOptions<TRequest>> = {},
+): TokenHandlerOptions<TRequest> {
+  return {
+    apiKey: 'api-key',
+    apiBaseUrl: 'https://example.com',
+    logger: createLogger(LogLevel.NONE),
+    ...overrides,
+  };
+}
+
+function post(body: unknown, headers: Record<string, string> = {}): Request {
+  return new Request('https://app.example.com/api/generate-token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+describe('createFetchTokenHandler', () => {
+  let generateToken: MockInstance<WebsocketTokenManager['generateToken']>;
+
+  beforeEach(() => {
+    generateToken = vi
+      .spyOn(WebsocketTokenManager.prototype, 'generateToken')
+      .mockResolvedValue('token');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should issue tokens for token requests', async () => {
+    const handler = createFetchTokenHandler(createOptions());
+
+    const response = await handler(post(tokenRequest));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+    expect(await response.json()).toEqual({ namespace: 'my-app-2', token: 'token' });
+    expect(generateToken).toHaveBeenCalledWith({
+      subscribePatterns: ['my-app-2:*'],
+      accessPattern: '^my-app-2:.*$',
+    });
+  });
+
+  it('should only accept POST requests', async () => {
+    const handler = createFetchTokenHandler(createOptions());
+
+    const response = await handler(new Request('https://app.example.com/api/generate-token'));
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('POST, OPTIONS');
+    expect(generateToken).not.toHaveBeenCalled();
+  });
+
+  it('should refuse invalid token requests', async () => {
+    const handler = createFetchTokenHandler(createOptions());
+
+    const responses = await Promise.all([
+      handler(post('{ not json')),
+      handler(post({ subscribedKeysAndPatterns: [] })),
+      handler(post({ namespace: 'my-app-2', subscribedKeysAndPatterns: ['other-app-2:*'] })),
+    ]);
+
+    expect(responses.map(response => response.status)).toEqual([400, 400, 400]);
+    expect(await responses[2].json()).toEqual({
+      error: "Keys and patterns must be within the namespace 'my-app-2'",
+    });
+    expect(generateToken).not.toHaveBeenCalled();
+  });
+
+  it('should only issue tokens for allowed namespaces', async () => {
+    const handler = createFetchTokenHandler(
+      createOptions({ allowedNamespaces: ['my-app', /^room-\d+$/] }),
+    );
+
+    const allowed = await Promise.all([
+      handler(post(tokenRequest)),
+      handler(post({ namespace: 'room-1', subscribedKeysAndPatterns: ['room-1:*'] })),
+    ]);
+    const refused = await handler(
+      post({ namespace: 'my-app-admin', subscribedKeysAndPatterns: [] }),
+    );
+
+    expect(allowed.map(response => response.status)).toEqual([200, 200]);
+    expect(refused.status).toBe(403);
+    expect(await refused.json()).toEqual({
+      error: "Tokens are not issued for namespace 'my-app-admin'",
+    });
+  });
+
+  it('should issue tokens with the permissions decided by authorize', async () => {
+    const authorize = vi.fn((_tokenRequest: unknown, request: Request) =>
+      request.headers.get('Authorization') === 'Bearer viewer' ? { readOnly: true } : false,
+    );
+    const handler = createFetchTokenHandler(createOptions({ authorize }));
+
+    const granted = await handler(post(tokenRequest, { Authorization: 'Bearer viewer' }));
+    const refused = await handler(post(tokenRequest));
+
+    expect(authorize).toHaveBeenCalledWith(tokenRequest, expect.any(Request));
+    expect(await granted.json()).toEqual({
+      namespace: 'my-app-2',
+      token: 'token',
+      permissions: { readOnly: true },
+    });
+    expect(refused.status).toBe(403);
+    expect(generateToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer preflight requests of allowed origins', async () => {
+    const handler = createFetchTokenHandler(
+      createOptions({
+        cors: { origin: ['https://app.example.com'], credentials: true, maxAge: 600 },
+      }),
+    );
+    const preflight = (origin: string) =>
+      handler(
+        new Request('https://api.example.com/generate-token', {
+          method: 'OPTIONS',
+          headers: { Origin: origin, 'Access-Control-Request-Headers': 'content-type,x-csrf' },
+        }),
+      );
+
+    const allowed = await preflight('https://app.example.com');
+    const refused = await preflight('https://evil.example.com');
+    const response = await handler(post(tokenRequest, { Origin: 'https://app.example.com' }));
+
+    expect(allowed.status).toBe(204);
+    expect(Object.fromEntries(allowed.headers)).toMatchObject({
+      'access-control-allow-origin': 'https://app.example.com',
+      'access-control-allow-credentials': 'true',
+      'access-control-allow-methods': 'POST, OPTIONS',
+      'access-control-allow-headers': 'content-type,x-csrf',
+      'access-control-max-age': '600',
+    });
+    expect(refused.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com');
+  });
+
+  it('should not reveal why token generation failed', async () => {
+    generateToken.mockRejectedValue(new Error('Invalid API key'));
+    const logger = createLogger(LogLevel.NONE);
+    const logError = vi.spyOn(logger, 'error');
+    const handler = createFetchTokenHandler(createOptions({ logger }));
+
+    const response = await handler(post(tokenRequest));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to generate token' });
+    expect(logError).toHaveBeenCalledWith('Failed to generate token', expect.any(Error));
+  });
+});
+
+describe('createNodeTokenHandler', () => {
+  beforeEach(() => {
+    vi.spyOn(WebsocketTokenManager.prototype, 'generateToken').mockResolvedValue('token');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function withServer(
+    handler: ReturnType<typeof createNodeTokenHandler>,
+    run: (url: string) => Promise<void>,
+  ): Promise<void> {
+    const server = createServer((req, res) => void handler(req, res));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  }
+
+  it('should issue tokens with the http module', async () => {
+    await withServer(createNodeTokenHandler(createOptions()), async url => {
+      const response = await fetch(url, { method: 'POST', body: JSON.stringify(tokenRequest) });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+      expect(await response.json()).toEqual({ namespace: 'my-app-2', token: 'token' });
+    });
+  });
+
+  it('should refuse bodies that are too large', async () => {
+    await withServer(createNodeTokenHandler(createOptions()), async url => {
+      const response = await fetch(url, {
+        method: 'POST',
+        body: JSON.stringify({ ...tokenRequest, padding: 'x'.repeat(MAX_TOKEN_REQUEST_SIZE) }),
+      });
+
+      expect(response.status).toBe(413);
+    });
+  });
+
+  it('should use bodies parsed by frameworks such as Express and Next.js', async () => {
+    const authorize = vi.fn((_tokenRequest: unknown, req: NodeRequestLike & { user: string }) =>
+      req.user === 'alice' ? { writablePaths: ['todos'] } : false,
+    );
+    const handler = createNodeTokenHandler(createOptions({ authorize }));
+    const req = {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: tokenRequest,
+      user: 'alice',
+      [Symbol.asyncIterator]: () => {
+        throw new Error('The body was already read');
+      },
+    };
+    const res = { statusCode: 0, setHeader: vi.fn(), end: vi.fn() };
+
+    await handler(req, res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'application/json');
+    expect(JSON.parse(res.end.mock.calls[0][0] as string)).toEqual({
+      namespace: 'my-app-2',
+      token: 'token',
+      permissions: { writablePaths: ['todos'] },
+    });
+  });
+});
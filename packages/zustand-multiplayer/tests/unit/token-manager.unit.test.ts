@@ -0,0 +1,211 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { decodeTokenExpiry, getTokenExpiry } from '../../src/auth/token-helper';
+import type { TokenGenerationOptions } from '../../src/auth/token-manager';
+import { TokenManager } from '../../src/auth/token-manager';
+import { createLogger, LogLevel } from '../../src/monitoring/logger';
+import { StorageKeyManager } from '../../src/storage/storage-key-manager';
+import { TOKEN_EXPIRY_TIME } from '../../src/utils/constants';
+import { createRetryManager } from '../../src/utils/retry';
+
+function createJwt(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) =>
+    btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}.signature`;
+}
+
+describe('decodeTokenExpiry', () => {
+  it('should read the exp claim of a JWT', () => {
+    expect(decodeTokenExpiry(createJwt({ exp: 1700000000 }))).toBe(1700000000 * 1000);
+  });
+
+  it('should return undefined for tokens without an expiry', () => {
+    expect(decodeTokenExpiry('opaque-token')).toBeUndefined();
+    expect(decodeTokenExpiry(createJwt({ sub: 'user' }))).toBeUndefined();
+    expect(decodeTokenExpiry('not.a-jwt!.token')).toBeUndefined();
+  });
+});
+
+describe('getTokenExpiry', () => {
+  it('should prefer expiresAt, then expiresIn, then the token', () => {
+    const token = createJwt({ exp: 1700000000 });
+    vi.useFakeTimers({ now: 1000 });
+
+    expect(getTokenExpiry({ token, expiresAt: 5000, expiresIn: 60 })).toBe(5000);
+    expect(getTokenExpiry({ token, expiresIn: 60 })).toBe(61000);
+    expect(getTokenExpiry({ token })).toBe(1700000000 * 1000);
+    expect(getTokenExpiry({ token: 'opaque-token' })).toBeUndefined();
+
+    vi.useRealTimers();
+  });
+});
+
+describe('TokenManager', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+  });
+
+  function createTokenManager(options: Partial<TokenGenerationOptions> = {}): TokenManager {
+    return new TokenManager({
+      namespace: 'tokens',
+      apiBaseUrl: 'https://example.com',
+      tokenGenerationUrl: 'https://example.com/token',
+      subscribedKeys: ['*'],
+      keyManager: new StorageKeyManager('tokens'),
+      retryManager: createRetryManager({ maxRetries: 0 }),
+      logger: createLogger(LogLevel.NONE),
+      clientId: 'client-1',
+      ...options,
+    });
+  }
+
+  function respondWith(body: Record<string, unknown>): void {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ namespace: 'tokens', ...body })));
+  }
+
+  it('should schedule the refresh from the expiry the endpoint returns', async () => {
+    respondWith({ token: 'token-1', expiresIn: 60 });
+    const tokenManager = createTokenManager();
+    const onRefresh = vi.fn(() => Promise.resolve());
+    const onGenerated = vi.fn();
+    tokenManager.setTokenRefreshCallback(onRefresh);
+    tokenManager.setTokenGeneratedCallback(onGenerated);
+
+    expect(await tokenManager.generateToken()).toBe('token-1');
+    expect(onGenerated).toHaveBeenCalledWith(Date.now() + 60000, undefined);
+
+    // Short-lived tokens are refreshed after three quarters of their lifetime
+    await vi.advanceTimersByTimeAsync(44000);
+    expect(onRefresh).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onRefresh).toHaveBeenCalledTimes(1);
+
+    tokenManager.clear();
+  });
+
+  it('should report the permissions of the token', async () => {
+    respondWith({ token: 'token-1', expiresIn: 60, permissions: { writablePaths: ['title'] } });
+    const tokenManager = createTokenManager();
+    const onGenerated = vi.fn();
+    tokenManager.setTokenGeneratedCallback(onGenerated);
+
+    await tokenManager.generateToken();
+
+    expect(onGenerated).toHaveBeenCalledWith(Date.now() + 60000, { writablePaths: ['title'] });
+    tokenManager.clear();
+  });
+
+  it('should use the expiry of JWTs', async () => {
+    const expiresAt = Math.floor(Date.now() / 1000) * 1000 + 30 * 60 * 1000;
+    respondWith({ token: createJwt({ exp: expiresAt / 1000 }) });
+    const tokenManager = createTokenManager();
+    const onGenerated = vi.fn();
+    tokenManager.setTokenGeneratedCallback(onGenerated);
+
+    await tokenManager.generateToken();
+
+    expect(onGenerated).toHaveBeenCalledWith(expiresAt, undefined);
+    tokenManager.clear();
+  });
+
+  it('should fall back to the default lifetime for opaque tokens', async () => {
+    respondWith({ token: 'opaque-token' });
+    const tokenManager = createTokenManager();
+    const onGenerated = vi.fn();
+    tokenManager.setTokenGeneratedCallback(onGenerated);
+
+    await tokenManager.generateToken();
+
+    expect(onGenerated).toHaveBeenCalledWith(Date.now() + TOKEN_EXPIRY_TIME, undefined);
+    tokenManager.clear();
+  });
+
+  it('should fetch a new token once the cached token expired or was cleared', async () => {
+    respondWith({ token: 'token-1', expiresIn: 60 });
+    const tokenManager = createTokenManager();
+    await tokenManager.generateToken();
+    expect(await tokenManager.generateToken()).toBe('token-1');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    respondWith({ token: 'token-2', expiresIn: 60 });
+    tokenManager.clear();
+
+    expect(await tokenManager.generateToken()).toBe('token-2');
+    tokenManager.clear();
+  });
+
+  it('should obtain tokens from getToken instead of the token URL', async () => {
+    const getToken = vi.fn(() => Promise.resolve({ token: 'provided', expiresIn: 60 }));
+    const tokenManager = createTokenManager({ getToken });
+    const onGenerated = vi.fn();
+    tokenManager.setTokenGeneratedCallback(onGenerated);
+
+    expect(await tokenManager.generateToken()).toBe('provided');
+
+    expect(getToken).toHaveBeenCalledWith({
+      namespace: 'tokens',
+      subscribedKeysAndPatterns: ['tokens:*'],
+    });
+    expect(onGenerated).toHaveBeenCalledWith(Date.now() + 60000, undefined);
+    expect(fetchMock).not.toHaveBeenCalled();
+    tokenManager.clear();
+  });
+
+  it('should accept tokens returned as strings and reject empty tokens', async () => {
+    const tokenManager = createTokenManager({ getToken: () => Promise.resolve('provided') });
+    expect(await tokenManager.generateToken()).toBe('provided');
+    tokenManager.clear();
+
+    const emptyTokenManager = createTokenManager({ getToken: () => Promise.resolve('') });
+    await expect(emptyTokenManager.generateToken()).rejects.toThrow('getToken must return a token');
+  });
+
+  it('should send token requests with the configured request init', async () => {
+    respondWith({ token: 'token-1' });
+    const tokenManager = createTokenManager({
+      tokenRequestInit: {
+        credentials: 'include',
+        headers: { Authorization: 'Bearer session' },
+      },
+    });
+
+    await tokenManager.generateToken();
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const headers = new Headers(init.headers);
+    expect(url).toBe('https://example.com/token');
+    expect(init.method).toBe('POST');
+    expect(init.credentials).toBe('include');
+    expect(headers.get('Authorization')).toBe('Bearer session');
+    expect(headers.get('Content-Type')).toBe('application/json');
+    expect(JSON.parse(init.body as string)).toEqual({
+      namespace: 'tokens',
+      subscribedKeysAndPatterns: ['tokens:*'],
+    });
+    tokenManager.clear();
+  });
+
+  it('should create the request init for each token request', async () => {
+    respondWith({ token: 'token-1' });
+    const tokenRequestInit = vi.fn(() => ({ headers: { 'X-CSRF-Token': 'csrf' } }));
+    const tokenManager = createTokenManager({ tokenRequestInit });
+
+    await tokenManager.generateToken();
+
+    expect(tokenRequestInit).toHaveBeenCalledWith({
+      namespace: 'tokens',
+      subscribedKeysAndPatterns: ['tokens:*'],
+    });
+    const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(new Headers(init.headers).get('X-CSRF-Token')).toBe('csrf');
+    tokenManager.clear();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+describe('Multiplayer transactions', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<TestState>>) {
+    return storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, options),
+    );
+  }
+
+  /**
+   * Records the (counter, title) pairs a store goes through
+   */
+  function recordStates(store: ReturnType<typeof createTestStore>): Array<[number, string]> {
+    const states: Array<[number, string]> = [];
+    store.subscribe(state => {
+      const last = states[states.length - 1];
+      if (last === undefined || last[0] !== state.counter || last[1] !== state.title) {
+        states.push([state.counter, state.title]);
+      }
+    });
+    return states;
+  }
+
+  it('should apply the changes of a transaction at once on other clients', async () => {
+    const namespace = createUniqueStoreName('transaction');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+    const states = recordStates(store2);
+
+    await store1.multiplayer.transaction(() => {
+      store1.getState().increment();
+      store1.getState().setTitle('moved');
+    });
+
+    await waitFor(() => {
+      expect(store2.getState().counter).toBe(1);
+      expect(store2.getState().title).toBe('moved');
+    });
+    // Let the writes under the individual keys arrive as well
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(states).toEqual([[1, 'moved']]);
+    const transactionPrefix = `${namespace}-2:$transaction:`;
+    expect(server.range(transactionPrefix, `${transactionPrefix}\xff`).records).toHaveLength(0);
+  });
+
+  it('should write every set as a transaction with atomicUpdates', async () => {
+    const namespace = createUniqueStoreName('transaction-atomic');
+    const store1 = createTestStore({ namespace, atomicUpdates: true });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+    const states = recordStates(store2);
+
+    store1.setState({ counter: 5, title: 'both' });
+
+    await waitFor(() => {
+      expect(store2.getState().counter).toBe(5);
+      expect(store2.getState().title).toBe('both');
+    });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(states).toEqual([[5, 'both']]);
+  });
+
+  it('should hydrate the changes of a transaction on clients joining later', async () => {
+    const namespace = createUniqueStoreName('transaction-hydrate');
+    const store1 = createTestStore({ namespace });
+    await waitForHydration(store1);
+
+    await store1.multiplayer.transaction(() => {
+      store1.getState().increment();
+      store1.getState().addTodo('joined');
+    });
+
+    const store2 = createTestStore({ namespace });
+    await waitForHydration(store2);
+
+    expect(store2.getState().counter).toBe(1);
+    expect(Object.keys(store2.getState().todos)).toEqual(['joined']);
+  });
+
+  it('should remove transaction records left by clients that stopped', async () => {
+    const namespace = createUniqueStoreName('transaction-stale');
+    const key = `${namespace}-2:$transaction:stopped-client`;
+    const record = { writes: [{ path: 'counter', operation: 'set', value: 3, timestamp: 1 }] };
+    server.set(key, JSON.stringify({ value: record, timestamp: 1 }));
+
+    const store = createTestStore({ namespace });
+    await waitForHydration(store);
+
+    await waitFor(() => expect(server.get(key)).toBeUndefined());
+  });
+
+  it('should queue a transaction made while offline and sync it on reconnect', async () => {
+    const namespace = createUniqueStoreName('transaction-offline');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    await store1.multiplayer.disconnect();
+    await store1.multiplayer.transaction(() => {
+      store1.getState().increment();
+      store1.getState().setTitle('offline');
+    });
+    expect(store1.multiplayer.getPendingChanges()).toHaveLength(2);
+
+    await store1.multiplayer.connect();
+
+    await waitFor(() => {
+      expect(store2.getState().counter).toBe(1);
+      expect(store2.getState().title).toBe('offline');
+    });
+  });
+});
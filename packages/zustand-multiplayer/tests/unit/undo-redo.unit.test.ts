@@ -0,0 +1,145 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { counter } from '../../src/crdt/field-types';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+describe('Multiplayer undo/redo', () => {
+  const server = new MemoryStorageServer({ latency: 5 });
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<TestState>>) {
+    return storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, options),
+    );
+  }
+
+  it('should undo and redo local changes', async () => {
+    const store = createTestStore();
+    await waitForHydration(store);
+    expect(store.multiplayer.canUndo()).toBe(false);
+
+    store.getState().setTitle('first');
+    store.getState().setTitle('second');
+
+    expect(await store.multiplayer.undo()).toBe(true);
+    expect(store.getState().title).toBe('first');
+    expect(await store.multiplayer.undo()).toBe(true);
+    expect(store.getState().title).toBe('');
+    expect(await store.multiplayer.undo()).toBe(false);
+
+    expect(store.multiplayer.canRedo()).toBe(true);
+    expect(await store.multiplayer.redo()).toBe(true);
+    expect(store.getState().title).toBe('first');
+
+    store.getState().setTitle('third');
+    expect(store.multiplayer.canRedo()).toBe(false);
+  });
+
+  it('should sync undone changes without reverting changes of other clients', async () => {
+    const namespace = createUniqueStoreName('undo-concurrent');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().addTodo('mine');
+    store2.getState().addTodo('theirs');
+    await waitFor(() => {
+      expect(Object.keys(store1.getState().todos)).toHaveLength(2);
+      expect(Object.keys(store2.getState().todos)).toHaveLength(2);
+    });
+
+    await store1.multiplayer.undo();
+
+    await waitFor(() => {
+      expect(Object.keys(store1.getState().todos)).toEqual(['theirs']);
+      expect(Object.keys(store2.getState().todos)).toEqual(['theirs']);
+    });
+  });
+
+  it('should skip changes that another client has overwritten since', async () => {
+    const namespace = createUniqueStoreName('undo-overwritten');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().setTitle('mine');
+    await waitFor(() => expect(store2.getState().title).toBe('mine'));
+    store2.getState().setTitle('theirs');
+    await waitFor(() => expect(store1.getState().title).toBe('theirs'));
+
+    expect(await store1.multiplayer.undo()).toBe(false);
+    expect(store1.getState().title).toBe('theirs');
+  });
+
+  it('should undo grouped changes in one step', async () => {
+    const store = createTestStore();
+    await waitForHydration(store);
+
+    store.multiplayer.groupUndo(() => {
+      store.getState().increment();
+      store.getState().increment();
+      store.getState().setTitle('grouped');
+    });
+
+    await store.multiplayer.undo();
+
+    expect(store.getState().counter).toBe(0);
+    expect(store.getState().title).toBe('');
+    expect(store.multiplayer.canUndo()).toBe(false);
+  });
+
+  it('should only track the configured fields and stack depth', async () => {
+    const store = createTestStore({ undo: { fields: ['title'], maxDepth: 2 } });
+    await waitForHydration(store);
+
+    store.getState().increment();
+    expect(store.multiplayer.canUndo()).toBe(false);
+
+    store.getState().setTitle('a');
+    store.getState().setTitle('b');
+    store.getState().setTitle('c');
+    await store.multiplayer.undo();
+    await store.multiplayer.undo();
+
+    expect(store.getState().title).toBe('a');
+    expect(await store.multiplayer.undo()).toBe(false);
+    expect(store.getState().counter).toBe(1);
+  });
+
+  it('should undo counter changes as inverse increments', async () => {
+    const namespace = createUniqueStoreName('undo-counter');
+    const options = { namespace, fieldTypes: { counter: counter() } };
+    const store1 = createTestStore(options);
+    const store2 = createTestStore(options);
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().increment();
+    store2.getState().increment();
+    store2.getState().increment();
+    await waitFor(() => expect(store1.getState().counter).toBe(3));
+
+    await store1.multiplayer.undo();
+
+    await waitFor(() => {
+      expect(store1.getState().counter).toBe(2);
+      expect(store2.getState().counter).toBe(2);
+    });
+  });
+});
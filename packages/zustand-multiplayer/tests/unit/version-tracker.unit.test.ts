@@ -0,0 +1,190 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { KeyMetadata } from '../../src/core/version-tracker';
+import { compareVersions, VersionTracker } from '../../src/core/version-tracker';
+import { MemoryStorageServer } from '../../src/storage/memory-storage';
+import type { MultiplayerOptions } from '../../src/types/multiplayer-types';
+import { createDelay } from '../../src/utils';
+import type { TestState } from '../fixtures/store-fixtures';
+import { createTestStateInitializer } from '../fixtures/store-fixtures';
+import {
+  createUniqueStoreName,
+  getMemoryMultiplayerOptions,
+  waitFor,
+  waitForHydration,
+  waitForMultipleStores,
+} from '../utils';
+import { StoreCreator } from '../utils/store-creator';
+
+function createVersion(timestamp: number, clientId: string, key = 'ns:title'): KeyMetadata {
+  return { key, timestamp, clientId, deleted: false };
+}
+
+describe('VersionTracker Unit Tests', () => {
+  it('should order versions by timestamp and then client id', () => {
+    expect(compareVersions(createVersion(1, 'b'), createVersion(2, 'a'))).toBeLessThan(0);
+    expect(compareVersions(createVersion(2, 'a'), createVersion(2, 'b'))).toBeLessThan(0);
+    expect(compareVersions(createVersion(2, 'b'), createVersion(2, 'a'))).toBeGreaterThan(0);
+    expect(compareVersions(createVersion(2, 'a'), createVersion(2, 'a'))).toBe(0);
+  });
+
+  it('should only accept newer versions per key', () => {
+    const tracker = new VersionTracker();
+
+    expect(tracker.update(createVersion(2, 'a'))).toBe(true);
+    expect(tracker.update(createVersion(1, 'b'))).toBe(false);
+    expect(tracker.update(createVersion(2, 'a'))).toBe(false);
+    expect(tracker.update(createVersion(1, 'b', 'ns:counter'))).toBe(true);
+    expect(tracker.update(createVersion(2, 'b'))).toBe(true);
+
+    expect(tracker.get('ns:title')?.clientId).toBe('b');
+    expect(tracker.get('ns:counter')?.timestamp).toBe(1);
+  });
+});
+
+describe('Multiplayer last-writer-wins', () => {
+  const server = new MemoryStorageServer();
+  const latentServer = new MemoryStorageServer({ latency: 10 });
+  const storeCreator = new StoreCreator();
+  const initializer = createTestStateInitializer();
+
+  afterEach(async () => {
+    await storeCreator.cleanupAllStores();
+    server.reset();
+    latentServer.reset();
+    vi.restoreAllMocks();
+  });
+
+  function createTestStore(options?: Partial<MultiplayerOptions<TestState>>) {
+    return storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(server, options),
+    );
+  }
+
+  function writeRemote(key: string, value: unknown, timestamp: number, clientId = 'remote') {
+    server.set(key, JSON.stringify({ value, clientId, timestamp }), true);
+  }
+
+  it('should discard remote changes older than the current value', async () => {
+    const namespace = createUniqueStoreName('lww-stale');
+    const store = createTestStore({ namespace });
+    await waitForMultipleStores([store], 'hydrated');
+    const key = `${namespace}-2:title`;
+
+    writeRemote(key, 'newer', 2000);
+    await waitFor(() => expect(store.getState().title).toBe('newer'));
+
+    writeRemote(key, 'older', 1000);
+    await createDelay(20);
+
+    expect(store.getState().title).toBe('newer');
+    expect(store.multiplayer.getKeyMetadata('title')).toEqual({
+      key,
+      timestamp: 2000,
+      clientId: 'remote',
+      deleted: false,
+    });
+  });
+
+  it('should keep local writes newer than any version seen before', async () => {
+    const namespace = createUniqueStoreName('lww-local');
+    const store1 = createTestStore({ namespace });
+    const store2 = createTestStore({ namespace });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+    const farFuture = Date.now() + 60_000;
+
+    writeRemote(`${namespace}-2:title`, 'from the future', farFuture);
+    await waitFor(() => expect(store1.getState().title).toBe('from the future'));
+    store1.getState().setTitle('local');
+
+    await waitFor(() => expect(store2.getState().title).toBe('local'));
+    const metadata = store1.multiplayer.getKeyMetadata('title');
+    expect(metadata?.timestamp).toBeGreaterThan(farFuture);
+    expect(store2.multiplayer.getKeyMetadata('title')).toEqual(metadata);
+  });
+
+  it('should resolve metadata for paths inside stored values', async () => {
+    const namespace = createUniqueStoreName('lww-nested');
+    const store1 = createTestStore({ namespace, zFactor: 1 });
+    const store2 = createTestStore({ namespace, zFactor: 1 });
+    await waitForMultipleStores([store1, store2], 'hydrated');
+
+    store1.getState().addTodo('My todo');
+    await waitFor(() => expect(store2.getState().todos['My todo']).toBeDefined());
+
+    const metadata = store2.multiplayer.getKeyMetadata(['todos', 'My todo', 'title']);
+    expect(metadata?.key).toBe(`${namespace}-1:todos:My%20todo`);
+    expect(metadata?.clientId).toBe(store1.multiplayer.getKeyMetadata('todos.My todo')?.clientId);
+    expect(store2.multiplayer.getKeyMetadata('counter')).toBeNull();
+  });
+
+  it('should not hydrate values older than local writes', async () => {
+    const namespace = createUniqueStoreName('lww-hydrate');
+    const store = createTestStore({ namespace });
+    await waitForMultipleStores([store], 'hydrated');
+
+    store.getState().setTitle('local');
+    await waitFor(() => expect(store.multiplayer.getKeyMetadata('title')).not.toBeNull());
+    server.set(
+      `${namespace}-2:title`,
+      JSON.stringify({ value: 'stale', clientId: 'remote', timestamp: 1 }),
+    );
+    await store.multiplayer.reHydrate();
+
+    expect(store.getState().title).toBe('local');
+  });
+
+  it('should restore the winning value when a stale patch is stored over it', async () => {
+    const namespace = createUniqueStoreName('lww-restore');
+    const store1 = createTestStore({ namespace, zFactor: 1 });
+    await waitForMultipleStores([store1], 'hydrated');
+    const todo = { id: '1', title: 'winner', completed: false };
+    await store1.multiplayer.setAndSync({ todos: { '1': todo } });
+
+    // A concurrent patch that lost on the clients but reached HPKV last
+    writeRemote(`${namespace}-1:todos:1`, { title: 'loser', extra: true }, 1, 'other');
+
+    await waitFor(() => {
+      const stored = JSON.parse(server.get(`${namespace}-1:todos:1`)!) as { value: unknown };
+      expect(stored.value).toEqual(todo);
+    });
+    const store2 = createTestStore({ namespace, zFactor: 1 });
+    await waitForHydration(store2);
+    expect(store2.getState().todos).toEqual({ '1': todo });
+    expect(store1.getState().todos).toEqual({ '1': todo });
+  });
+
+  it('should settle concurrent writes to the same key on one value', async () => {
+    const namespace = createUniqueStoreName('lww-concurrent');
+    const store1 = storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(latentServer, { namespace }),
+    );
+    const store2 = storeCreator.createStore<TestState>(
+      initializer,
+      getMemoryMultiplayerOptions(latentServer, { namespace }),
+    );
+    await waitForMultipleStores([store1, store2], 'hydrated');
+    const key = `${namespace}-2:title`;
+    const set = vi.spyOn(latentServer, 'set');
+    const countWrites = () => set.mock.calls.filter(([writtenKey]) => writtenKey === key).length;
+    const getStoredTitle = () => (JSON.parse(latentServer.get(key)!) as { value: unknown }).value;
+
+    for (let round = 0; round < 3; round++) {
+      store1.setState({ title: `a${round}` });
+      store2.setState({ title: `b${round}` });
+      await createDelay(5);
+    }
+
+    await waitFor(() => {
+      expect(store2.getState().title).toBe(store1.getState().title);
+      expect(getStoredTitle()).toBe(store1.getState().title);
+    });
+    const settledWrites = countWrites();
+    await createDelay(200);
+
+    expect(countWrites()).toBe(settledWrites);
+    expect(store2.getState().title).toBe(store1.getState().title);
+    expect(getStoredTitle()).toBe(store1.getState().title);
+  });
+});
@@ -2,6 +2,8 @@ import http from 'http';
 import { ConnectionState } from '@hpkv/websocket-client';
 import { TokenHelper } from '../../src/auth/token-helper';
 import { LogLevel } from '../../src/monitoring/logger';
+import type { MemoryStorageServer } from '../../src/storage/memory-storage';
+import { createMemoryStorage } from '../../src/storage/memory-storage';
 import type {
   MultiplayerOptions,
   MultiplayerStoreApi,
@@ -102,6 +104,17 @@ export function getTestMultiplayerOptions<T>(
   };
 }
 
+export function getMemoryMultiplayerOptions<T>(
+  server: MemoryStorageServer,
+  overrides?: Partial<MultiplayerOptions<T>>,
+): Partial<MultiplayerOptions<T>> {
+  return {
+    logLevel: LogLevel.NONE,
+    storage: createMemoryStorage(server),
+    ...overrides,
+  };
+}
+
 export async function createTestServer(apiKey: string, apiBaseUrl: string) {
   const tokenHelper = new TokenHelper(apiKey, apiBaseUrl);
 